@@ -0,0 +1,252 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CircuitBreakerCache, type CircuitBreakerConfig } from './circuit-breaker';
+import { TieredCache } from './tiered';
+import type { Cache } from './types';
+
+const silent = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+/**
+ * Map-backed cache that throws (or stalls) on demand
+ */
+function createBackend() {
+  const store = new Map<string, unknown>();
+  const backend = {
+    down: false,
+    stall: false,
+    store,
+    calls: 0,
+  };
+  const check = async () => {
+    backend.calls++;
+    if (backend.stall) await new Promise(() => {});
+    if (backend.down) throw new Error('backend down');
+  };
+  const cache: Cache<unknown> = {
+    get: vi.fn(async (key: string) => {
+      await check();
+      return store.get(key);
+    }),
+    set: vi.fn(async (key: string, value: unknown) => {
+      await check();
+      store.set(key, value);
+    }),
+    del: vi.fn(async (key: string) => {
+      await check();
+      store.delete(key);
+    }),
+    clear: vi.fn(async () => {
+      await check();
+      store.clear();
+    }),
+  };
+  return { backend, cache };
+}
+
+function createBreaker(overrides: Partial<CircuitBreakerConfig<unknown>> = {}) {
+  const { backend, cache } = createBackend();
+  const breaker = new CircuitBreakerCache({
+    cache,
+    minimumCalls: 4,
+    failureRateThreshold: 0.5,
+    openMs: 20,
+    logger: silent,
+    ...overrides,
+  });
+  return { backend, cache, breaker };
+}
+
+async function open(breaker: CircuitBreakerCache<unknown>, backend: { down: boolean }) {
+  backend.down = true;
+  for (let i = 0; i < 4; i++) {
+    await breaker.get('key');
+  }
+  expect(breaker.status().state).toBe('open');
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('CircuitBreakerCache', () => {
+  it('passes calls through while closed', async () => {
+    const { breaker, backend } = createBreaker();
+
+    await breaker.set('a', 1, 1000);
+    expect(await breaker.get('a')).toBe(1);
+    await breaker.del('a');
+
+    expect(backend.store.size).toBe(0);
+    expect(breaker.isAvailable()).toBe(true);
+    expect(breaker.status()).toMatchObject({ state: 'closed', calls: 3, failures: 0, opens: 0 });
+  });
+
+  it('opens once the failure rate crosses the threshold', async () => {
+    const onStateChange = vi.fn();
+    const { breaker, backend } = createBreaker({ onStateChange });
+
+    await breaker.get('a');
+    backend.down = true;
+    await breaker.get('a');
+    await breaker.get('a');
+    expect(breaker.status().state).toBe('closed'); // Fewer than minimumCalls
+    await breaker.get('a');
+
+    expect(breaker.status()).toMatchObject({ state: 'open', calls: 4, failures: 3, opens: 1 });
+    expect(breaker.isAvailable()).toBe(false);
+    expect(onStateChange).toHaveBeenCalledWith('open', 'closed');
+  });
+
+  it("doesn't touch the backend while open", async () => {
+    const { breaker, backend } = createBreaker({ openMs: 60000 });
+    await open(breaker, backend);
+    const calls = backend.calls;
+
+    expect(await breaker.get('a')).toBeUndefined();
+    await breaker.set('a', 1, 1000);
+
+    expect(backend.calls).toBe(calls);
+  });
+
+  it('counts slow calls as failures', async () => {
+    const { breaker, backend } = createBreaker({ timeoutMs: 5 });
+    backend.stall = true;
+
+    expect(await breaker.get('a')).toBeUndefined();
+    expect(breaker.status()).toMatchObject({ calls: 1, failures: 1 });
+  });
+
+  it('probes after openMs and closes when the backend answers', async () => {
+    const { breaker, backend } = createBreaker();
+    await open(breaker, backend);
+
+    backend.down = false;
+    await sleep(25);
+    expect(breaker.isAvailable()).toBe(false); // Starts the probe
+    expect(breaker.status().state).toBe('half-open');
+
+    await vi.waitFor(() => expect(breaker.status().state).toBe('closed'));
+    expect(breaker.isAvailable()).toBe(true);
+  });
+
+  it('stays open when the probe fails', async () => {
+    const { breaker, backend } = createBreaker();
+    await open(breaker, backend);
+
+    await sleep(25);
+    breaker.isAvailable();
+
+    await vi.waitFor(() => expect(breaker.status().state).toBe('open'));
+    expect(breaker.status().opens).toBe(1);
+  });
+
+  it('replays deletes queued while open before closing', async () => {
+    const { breaker, backend } = createBreaker();
+    backend.store.set('a', 1);
+    backend.store.set('b', 2);
+    await open(breaker, backend);
+
+    await breaker.del('a');
+    await breaker.delMany(['b', 'a']);
+    expect(breaker.status().pendingDeletes).toBe(2);
+    expect(backend.store.size).toBe(2);
+
+    backend.down = false;
+    await sleep(25);
+    breaker.isAvailable();
+
+    await vi.waitFor(() => expect(breaker.status().state).toBe('closed'));
+    expect(backend.store.size).toBe(0);
+    expect(breaker.status().pendingDeletes).toBe(0);
+  });
+
+  it('retries deletes that failed while closed after the next successful call', async () => {
+    const { breaker, backend } = createBreaker({ minimumCalls: 100 });
+    backend.store.set('a', 1);
+
+    backend.down = true;
+    await breaker.del('a');
+    expect(breaker.status()).toMatchObject({ state: 'closed', pendingDeletes: 1 });
+
+    backend.down = false;
+    await breaker.get('b');
+
+    await vi.waitFor(() => expect(breaker.status().pendingDeletes).toBe(0));
+    expect(backend.store.has('a')).toBe(false);
+  });
+
+  it('misses for keys whose delete is pending until it is replayed', async () => {
+    const { breaker, backend } = createBreaker({ minimumCalls: 100, timeoutMs: 5 });
+    backend.store.set('a', 1);
+    backend.store.set('b', 2);
+
+    backend.stall = true;
+    await breaker.del('a'); // Times out; the entry is still in the backend
+    backend.stall = false;
+
+    expect(await breaker.get('a')).toBeUndefined(); // Also starts the replay
+    expect(await breaker.getMany(['a', 'b'])).toEqual([undefined, 2]);
+    await vi.waitFor(() => expect(breaker.status().pendingDeletes).toBe(0));
+
+    backend.store.set('a', 3); // Filled again after the replay
+    expect(await breaker.get('a')).toBe(3);
+  });
+
+  it('misses for every key while a failed clear is pending', async () => {
+    const { breaker, backend } = createBreaker({ minimumCalls: 100 });
+    backend.store.set('a', 1);
+
+    backend.down = true;
+    await breaker.clear();
+    expect(breaker.status()).toMatchObject({ state: 'closed', clearOnRecovery: true });
+    backend.down = false;
+
+    expect(await breaker.get('a')).toBeUndefined();
+    expect(await breaker.getMany(['a'])).toEqual([undefined]);
+    await vi.waitFor(() => expect(breaker.status().clearOnRecovery).toBe(false));
+    expect(backend.store.size).toBe(0);
+  });
+
+  it('clears the cache on recovery when too many deletes are pending', async () => {
+    const { breaker, backend, cache } = createBreaker({ maxPendingDeletes: 2 });
+    backend.store.set('kept', 1);
+    await open(breaker, backend);
+
+    await breaker.delMany(['a', 'b', 'c']);
+    expect(breaker.status()).toMatchObject({ pendingDeletes: 0, clearOnRecovery: true });
+
+    backend.down = false;
+    await sleep(25);
+    breaker.isAvailable();
+
+    await vi.waitFor(() => expect(breaker.status().state).toBe('closed'));
+    expect(cache.clear).toHaveBeenCalled();
+    expect(backend.store.size).toBe(0);
+    expect(breaker.status().clearOnRecovery).toBe(false);
+  });
+
+  it('lists the keys of backends that can, also through a TieredCache', async () => {
+    const { breaker, backend, cache } = createBreaker({ openMs: 60000 });
+    expect(breaker.keys).toBeUndefined();
+
+    cache.keys = vi.fn(async () => Array.from(backend.store.keys()));
+    const listing = new CircuitBreakerCache({ cache, logger: silent });
+    const tiered = new TieredCache({ l2: listing, logger: silent });
+    backend.store.set('a', 1);
+
+    expect(await listing.keys?.()).toEqual(['a']);
+    expect(await tiered.keys?.()).toEqual(['a']);
+    const unlisted = new TieredCache({ l2: breaker, logger: silent });
+    expect(unlisted.keys).toBeUndefined();
+
+    await Promise.all([tiered.destroy(), unlisted.destroy()]);
+  });
+
+  it('is reported through a TieredCache L2', async () => {
+    const { breaker, backend } = createBreaker({ openMs: 60000 });
+    const tiered = new TieredCache({ l2: breaker, logger: silent });
+
+    expect(tiered.status()?.state).toBe('closed');
+    await open(breaker, backend);
+    expect(tiered.status()).toEqual(breaker.status());
+
+    await tiered.destroy();
+  });
+});
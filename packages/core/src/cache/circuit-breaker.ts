@@ -0,0 +1,365 @@
+import { Cache, CacheEntryInput } from './types';
+import { TimeoutError } from '../errors';
+import type { Logger } from '../logger';
+import { consoleLogger } from '../logger';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig<V> {
+  cache: Cache<V>; // Backend to protect (e.g. RedisCache with throwErrors: true)
+  timeoutMs?: number; // Default: 100 (per call; slower calls count as failures)
+  failureRateThreshold?: number; // Default: 0.5 (fraction of failed calls that opens the circuit)
+  minimumCalls?: number; // Default: 10 (calls in a window before the rate is checked)
+  windowMs?: number; // Default: 10,000 (failure rate is counted per window)
+  openMs?: number; // Default: 5,000 (how long to stay open before probing)
+  probe?: () => Promise<void>; // Default: get() of a probe key; throw or time out to stay open
+  maxPendingDeletes?: number; // Default: 10,000 (beyond this, the cache is cleared on recovery)
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+  logger?: Logger; // Default: consoleLogger
+}
+
+/**
+ * Breaker state for diagnostics
+ */
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  since: number; // Epoch ms of the last state change
+  calls: number; // Calls in the current window
+  failures: number; // Failed calls in the current window
+  opens: number; // Times the circuit has opened
+  pendingDeletes: number; // Deletes to replay on recovery
+  clearOnRecovery: boolean; // Too many deletes were dropped; the cache is cleared on recovery
+}
+
+const PROBE_KEY = '__includekit:probe';
+
+/**
+ * Fail-fast wrapper for a cache backend
+ *
+ * Every call gets a timeout. When the failure rate in a window crosses the
+ * threshold the circuit opens: reads miss and writes are skipped without
+ * touching the backend. After openMs it goes half-open and runs one health
+ * probe; traffic stays off the backend until the probe succeeds.
+ *
+ * Deletes are never lost: those that fail or arrive while open are queued
+ * and replayed before the circuit closes (or after the next successful call,
+ * if it never opened). If the queue overflows, the cache
+ * is cleared on recovery instead, since it may hold entries that were
+ * invalidated while it was unreachable. Until the replay is done, reads of
+ * queued keys (or of any key, when a clear is pending) miss.
+ *
+ * Error handling: like the other caches, errors are not thrown. The backend
+ * must throw (or stall) for failures to be seen; RedisCache logs and swallows
+ * errors unless created with throwErrors: true.
+ */
+export class CircuitBreakerCache<V> implements Cache<V> {
+  private readonly cache: Cache<V>;
+  private readonly timeoutMs: number;
+  private readonly failureRateThreshold: number;
+  private readonly minimumCalls: number;
+  private readonly windowMs: number;
+  private readonly openMs: number;
+  private readonly probe: () => Promise<void>;
+  private readonly maxPendingDeletes: number;
+  private readonly onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+  private readonly logger: Logger;
+
+  private state: CircuitState = 'closed';
+  private since = Date.now();
+  private windowStart = Date.now();
+  private calls = 0;
+  private failures = 0;
+  private opens = 0;
+  private readonly pendingDeletes = new Set<string>();
+  private clearOnRecovery = false;
+  private replaying = false;
+
+  keys?: () => Promise<string[]>;
+
+  constructor(config: CircuitBreakerConfig<V>) {
+    this.cache = config.cache;
+    // List keys only when the backend can; while open, there are none to list
+    const keys = this.cache.keys;
+    if (keys) this.keys = () => this.call([], () => keys.call(this.cache));
+    this.timeoutMs = config.timeoutMs ?? 100;
+    this.failureRateThreshold = config.failureRateThreshold ?? 0.5;
+    this.minimumCalls = config.minimumCalls ?? 10;
+    this.windowMs = config.windowMs ?? 10000;
+    this.openMs = config.openMs ?? 5000;
+    this.probe =
+      config.probe ??
+      (async () => {
+        await this.cache.get(PROBE_KEY);
+      });
+    this.maxPendingDeletes = config.maxPendingDeletes ?? 10000;
+    this.onStateChange = config.onStateChange;
+    this.logger = config.logger ?? consoleLogger;
+  }
+
+  async get(key: string): Promise<V | undefined> {
+    const stale = this.unreadable(key);
+    const value = await this.call(undefined, () => this.cache.get(key));
+    return stale || this.unreadable(key) ? undefined : value;
+  }
+
+  async set(key: string, value: V, ttlMs: number): Promise<void> {
+    await this.call(undefined, () => this.cache.set(key, value, ttlMs));
+  }
+
+  async del(key: string): Promise<void> {
+    await this.delMany([key]);
+  }
+
+  async getMany(keys: string[]): Promise<(V | undefined)[]> {
+    const misses = keys.map(() => undefined);
+    const stale = keys.map((key) => this.unreadable(key));
+    const values = await this.call(misses, () =>
+      this.cache.getMany
+        ? this.cache.getMany(keys)
+        : Promise.all(keys.map((key) => this.cache.get(key)))
+    );
+    return values.map((value, i) => (stale[i] || this.unreadable(keys[i]) ? undefined : value));
+  }
+
+  async setMany(entries: CacheEntryInput<V>[]): Promise<void> {
+    await this.call(undefined, async () => {
+      if (this.cache.setMany) {
+        await this.cache.setMany(entries);
+      } else {
+        await Promise.all(entries.map(({ key, value, ttlMs }) => this.cache.set(key, value, ttlMs)));
+      }
+    });
+  }
+
+  /**
+   * Delete keys, or queue them for replay if the backend is unavailable
+   */
+  async delMany(keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+
+    const deleted = await this.call(false, async () => {
+      await this.deleteAll(keys);
+      return true;
+    });
+    if (!deleted) {
+      this.queueDeletes(keys);
+    }
+  }
+
+  /**
+   * Clear the backend, or on recovery if it is unavailable
+   */
+  async clear(): Promise<void> {
+    const cleared = await this.call(false, async () => {
+      await this.cache.clear?.();
+      return true;
+    });
+    if (!cleared) {
+      this.pendingDeletes.clear();
+      this.clearOnRecovery = true;
+    }
+  }
+
+  size(): number {
+    return this.cache.size?.() ?? 0;
+  }
+
+  /**
+   * False while the circuit is open or half-open
+   * Callers can skip cache work entirely; reads would miss anyway.
+   */
+  isAvailable(): boolean {
+    this.maybeProbe();
+    return this.state === 'closed';
+  }
+
+  status(): CircuitBreakerStatus {
+    this.rollWindow();
+    return {
+      state: this.state,
+      since: this.since,
+      calls: this.calls,
+      failures: this.failures,
+      opens: this.opens,
+      pendingDeletes: this.pendingDeletes.size,
+      clearOnRecovery: this.clearOnRecovery,
+    };
+  }
+
+  /**
+   * Destroy the wrapped cache, if it supports it
+   */
+  async destroy(): Promise<void> {
+    await (this.cache as { destroy?: () => unknown }).destroy?.();
+  }
+
+  /**
+   * Run fn with a timeout while the circuit is closed
+   * Returns fallback when the circuit is open or the call fails.
+   */
+  private async call<T>(fallback: T, fn: () => Promise<T>): Promise<T> {
+    if (!this.isAvailable()) {
+      return fallback;
+    }
+
+    try {
+      const result = await this.withTimeout(fn());
+      this.record(false);
+      return result;
+    } catch (error) {
+      this.logger.debug?.('CircuitBreakerCache call failed:', error);
+      this.record(true);
+      return fallback;
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(new TimeoutError(`Cache call timeout after ${this.timeoutMs}ms`, this.timeoutMs)),
+        this.timeoutMs
+      );
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private record(failed: boolean): void {
+    // Calls that were in flight when the circuit opened don't count again
+    if (this.state !== 'closed') {
+      return;
+    }
+
+    this.rollWindow();
+    this.calls++;
+    if (!failed) {
+      // The backend answers again; retry deletes that failed while closed
+      if (!this.replaying && (this.pendingDeletes.size > 0 || this.clearOnRecovery)) {
+        this.replaying = true;
+        this.replay()
+          .catch((error) => this.logger.debug?.('CircuitBreakerCache replay failed:', error))
+          .finally(() => {
+            this.replaying = false;
+          });
+      }
+      return;
+    }
+
+    this.failures++;
+
+    if (
+      this.calls >= this.minimumCalls &&
+      this.failures / this.calls >= this.failureRateThreshold
+    ) {
+      this.opens++;
+      this.logger.warn(
+        `CircuitBreakerCache opened after ${this.failures}/${this.calls} failed calls; ` +
+          `skipping the cache for ${this.openMs}ms`
+      );
+      this.transition('open');
+    }
+  }
+
+  private rollWindow(): void {
+    if (Date.now() - this.windowStart >= this.windowMs) {
+      this.windowStart = Date.now();
+      this.calls = 0;
+      this.failures = 0;
+    }
+  }
+
+  /**
+   * Start one health probe once the circuit has been open for openMs
+   */
+  private maybeProbe(): void {
+    if (this.state !== 'open' || Date.now() - this.since < this.openMs) {
+      return;
+    }
+
+    this.transition('half-open');
+    this.recover().then(
+      () => {
+        this.logger.info?.('CircuitBreakerCache closed; cache backend recovered');
+        this.windowStart = Date.now();
+        this.calls = 0;
+        this.failures = 0;
+        this.transition('closed');
+      },
+      (error) => {
+        this.logger.debug?.('CircuitBreakerCache probe failed:', error);
+        this.transition('open');
+      }
+    );
+  }
+
+  /**
+   * Probe the backend, then replay what was dropped while it was down
+   */
+  private async recover(): Promise<void> {
+    await this.withTimeout(this.probe());
+    await this.replay();
+  }
+
+  private async replay(): Promise<void> {
+    if (this.clearOnRecovery) {
+      if (!this.cache.clear) {
+        this.logger.error(
+          'CircuitBreakerCache dropped too many deletes and the cache has no clear(); ' +
+            'entries may be stale until they expire'
+        );
+      } else {
+        await this.withTimeout(this.cache.clear());
+      }
+      this.clearOnRecovery = false;
+      return;
+    }
+
+    if (this.pendingDeletes.size > 0) {
+      const keys = Array.from(this.pendingDeletes);
+      await this.withTimeout(this.deleteAll(keys));
+      keys.forEach((key) => this.pendingDeletes.delete(key));
+    }
+  }
+
+  /**
+   * Whether the backend may still hold an entry that was deleted (or
+   * cleared) while it was unreachable; such reads miss until replay is done
+   */
+  private unreadable(key: string): boolean {
+    return this.clearOnRecovery || this.pendingDeletes.has(key);
+  }
+
+  private async deleteAll(keys: string[]): Promise<void> {
+    if (this.cache.delMany) {
+      await this.cache.delMany(keys);
+    } else {
+      await Promise.all(keys.map((key) => this.cache.del(key)));
+    }
+  }
+
+  private queueDeletes(keys: string[]): void {
+    if (this.clearOnRecovery) {
+      return;
+    }
+
+    keys.forEach((key) => this.pendingDeletes.add(key));
+    if (this.pendingDeletes.size > this.maxPendingDeletes) {
+      this.logger.warn(
+        `CircuitBreakerCache has more than ${this.maxPendingDeletes} pending deletes; ` +
+          'the cache will be cleared on recovery'
+      );
+      this.pendingDeletes.clear();
+      this.clearOnRecovery = true;
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    this.since = Date.now();
+    this.onStateChange?.(state, previous);
+  }
+}
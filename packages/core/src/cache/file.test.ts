@@ -0,0 +1,194 @@
+import { appendFile, mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileCache, type FileCacheConfig } from './file';
+
+const silent = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+let dir: string;
+let path: string;
+const caches: FileCache<unknown>[] = [];
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'includekit-file-cache-'));
+  path = join(dir, 'cache.jsonl');
+  silent.warn.mockClear();
+});
+
+afterEach(async () => {
+  await Promise.all(caches.splice(0).map((cache) => cache.destroy()));
+  await rm(dir, { recursive: true, force: true });
+});
+
+function open(config: Partial<FileCacheConfig> = {}): FileCache<unknown> {
+  const cache = new FileCache<unknown>({ path, logger: silent, ...config });
+  caches.push(cache);
+  return cache;
+}
+
+/**
+ * Close a cache and open the same file again, as a restarted process would
+ */
+async function reopen(
+  cache: FileCache<unknown>,
+  config: Partial<FileCacheConfig> = {}
+): Promise<FileCache<unknown>> {
+  await cache.destroy();
+  return open(config);
+}
+
+describe('FileCache', () => {
+  it('keeps entries across a restart, with their types', async () => {
+    const cache = open();
+    const value = { at: new Date('2024-01-01T00:00:00Z'), views: 10n, tags: new Set(['a']) };
+    await cache.set('a', value, 60000);
+    await cache.setMany([{ key: 'b', value: 2, ttlMs: 60000 }]);
+
+    const reopened = await reopen(cache);
+
+    expect(await reopened.getMany(['a', 'b', 'c'])).toEqual([value, 2, undefined]);
+    expect((await reopened.keys()).sort()).toEqual(['a', 'b']);
+  });
+
+  it('skips entries that expired while closed', async () => {
+    const cache = open();
+    await cache.set('short', 1, 5);
+    await cache.set('long', 2, 60000);
+    await cache.destroy();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const reopened = open();
+    expect(await reopened.keys()).toEqual(['long']);
+    expect(await reopened.get('short')).toBeUndefined();
+  });
+
+  describe('torn writes', () => {
+    it('truncates a torn last line and appends after it', async () => {
+      const cache = open();
+      await cache.set('a', 1, 60000);
+      await cache.destroy();
+      const intact = (await stat(path)).size;
+      await appendFile(path, '{"k":"b","x":9999999999999,"v":"');
+
+      const reopened = open();
+      expect(await reopened.get('a')).toBe(1);
+      expect(await reopened.get('b')).toBeUndefined();
+      expect((await stat(path)).size).toBe(intact);
+      expect(silent.warn).toHaveBeenCalledWith(
+        `FileCache truncated an incomplete record at offset ${intact} in ${path}`
+      );
+
+      await reopened.set('c', 3, 60000);
+      const again = await reopen(reopened);
+      expect(await again.getMany(['a', 'c'])).toEqual([1, 3]);
+    });
+
+    it('skips corrupt lines and keeps reading', async () => {
+      await writeFile(
+        path,
+        ['{"k":"a","x":9999999999999,"v":"1"}', 'garbage', '{"k":"b","x":9999999999999,"v":"2"}']
+          .map((line) => line + '\n')
+          .join('')
+      );
+
+      const cache = open();
+      expect(await cache.getMany(['a', 'b'])).toEqual([1, 2]);
+      expect(silent.warn).toHaveBeenCalledWith(
+        `FileCache skipped a corrupt record at offset 36 in ${path}`
+      );
+    });
+  });
+
+  describe('tombstones', () => {
+    it('keeps deleted entries deleted after a restart', async () => {
+      const cache = open();
+      await cache.set('a', 1, 60000);
+      await cache.set('b', 2, 60000);
+      await cache.del('a');
+
+      const reopened = await reopen(cache);
+      expect(await reopened.getMany(['a', 'b'])).toEqual([undefined, 2]);
+
+      await reopened.delMany(['b']);
+      const again = await reopen(reopened);
+      expect(await again.keys()).toEqual([]);
+    });
+
+    it('keeps entries evicted by maxItems, which may come back', async () => {
+      const cache = open({ maxItems: 1 });
+      await cache.set('a', 1, 60000);
+      await cache.set('b', 2, 60000);
+      expect(await cache.get('a')).toBeUndefined();
+      await cache.del('a'); // Not indexed, but persisted: still tombstoned
+
+      const reopened = await reopen(cache, { maxItems: 10 });
+      expect(await reopened.getMany(['a', 'b'])).toEqual([undefined, 2]);
+    });
+
+    it('tombstones the previous value of a key set too large to store', async () => {
+      const cache = open({ maxBytes: 100 });
+      await cache.set('a', 'small', 60000);
+
+      await cache.set('a', 'x'.repeat(200), 60000);
+      expect(await cache.get('a')).toBeUndefined();
+
+      const reopened = await reopen(cache, { maxBytes: 100 });
+      expect(await reopened.get('a')).toBeUndefined();
+    });
+
+    it('writes no tombstones for keys the file never held', async () => {
+      const cache = open();
+      await cache.del('missing');
+      await cache.get('missing'); // Waits for the open
+
+      expect(await readFile(path, 'utf-8')).toBe('');
+    });
+  });
+
+  describe('compaction', () => {
+    it('rewrites the file with only live entries', async () => {
+      const cache = open();
+      await cache.set('a', 1, 60000);
+      await cache.set('a', 2, 60000);
+      await cache.set('b', 3, 60000);
+      await cache.del('b');
+      const before = (await stat(path)).size;
+
+      await cache.compact();
+
+      const after = (await stat(path)).size;
+      expect(after).toBe(cache.bytes());
+      expect(after).toBeLessThan(before);
+      expect(await cache.get('a')).toBe(2);
+
+      await cache.set('c', 4, 60000); // Appends to the rewritten file
+      const reopened = await reopen(cache);
+      expect(await reopened.getMany(['a', 'b', 'c'])).toEqual([2, undefined, 4]);
+    });
+
+    it('compacts on its own once the file outgrows compactionRatio', async () => {
+      const cache = open();
+      const big = 'x'.repeat(400 * 1024);
+      for (let i = 0; i < 3; i++) {
+        await cache.set('big', big, 60000); // Each write leaves the last as garbage
+      }
+
+      expect((await stat(path)).size).toBe(cache.bytes());
+      expect(await cache.get('big')).toBe(big);
+    });
+  });
+
+  it('misses and logs when the file cannot be opened', async () => {
+    await writeFile(join(dir, 'file'), '');
+    const cache = open({ path: join(dir, 'file', 'cache.jsonl') });
+
+    await cache.set('a', 1, 60000);
+    expect(await cache.get('a')).toBeUndefined();
+    expect(await cache.keys()).toEqual([]);
+    expect(silent.warn).toHaveBeenCalledWith(
+      expect.stringContaining('FileCache could not open'),
+      expect.any(Error)
+    );
+  });
+});
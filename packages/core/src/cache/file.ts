@@ -0,0 +1,425 @@
+import { open, rename, mkdir, type FileHandle } from 'fs/promises';
+import { dirname } from 'path';
+import { Cache, CacheEntryInput } from './types';
+import { jsonSerializer, type Serializer } from './serializer';
+import type { Logger } from '../logger';
+import { consoleLogger } from '../logger';
+
+export interface FileCacheConfig {
+  path: string; // Log file; created (with its directory) if missing
+  maxItems?: number; // Default: 10,000
+  maxBytes?: number; // Default: unbounded (bytes of live entries on disk)
+  defaultTtlMs?: number; // Default: 300,000 (5 minutes)
+  serializer?: Serializer; // Default: jsonSerializer
+  compactionRatio?: number; // Default: 2 (rewrite once the file is this many times the live data)
+  fsync?: boolean; // Default: false (true: fsync every write to survive power loss, slower)
+  logger?: Logger; // Default: consoleLogger
+}
+
+interface IndexEntry {
+  offset: number;
+  length: number;
+  expiresAt: number;
+}
+
+/**
+ * One line of the log
+ * Set: { k, x: expiresAt, v: serialized value, b: 1 if v is base64 }
+ * Delete: { k, d: 1 }
+ */
+type LogRecord = { k: string; x: number; v: string; b?: 1 } | { k: string; d: 1 };
+
+/**
+ * Don't rewrite files smaller than this, whatever their garbage ratio
+ */
+const MIN_COMPACTION_BYTES = 1024 * 1024;
+
+/**
+ * Persistent cache for single-node deployments
+ *
+ * Entries live in an append-only JSONL log. An in-memory index maps keys to
+ * record offsets, so values are read from disk on hit. On open the log is
+ * replayed: expired entries are skipped and a torn last line (from a crash
+ * mid-write) is truncated away. Once the file grows past compactionRatio
+ * times its live data, it's rewritten to a temp file and renamed over the
+ * original, which is atomic.
+ *
+ * Error handling: like RedisCache, errors are logged but not thrown.
+ * If the file can't be opened, every get() is a miss.
+ */
+export class FileCache<V> implements Cache<V> {
+  private readonly path: string;
+  private readonly maxItems: number;
+  private readonly maxBytes: number;
+  private readonly defaultTtlMs: number;
+  private readonly serializer: Serializer;
+  private readonly compactionRatio: number;
+  private readonly fsync: boolean;
+  private readonly logger: Logger;
+
+  private readonly index = new Map<string, IndexEntry>(); // Insertion order = LRU order
+  private readonly persisted = new Set<string>(); // Keys with a set record in the file
+  private handle?: FileHandle;
+  private fileSize = 0;
+  private liveBytes = 0;
+  private opened?: Promise<void>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(config: FileCacheConfig) {
+    this.path = config.path;
+    this.maxItems = config.maxItems ?? 10000;
+    this.maxBytes = config.maxBytes ?? Infinity;
+    this.defaultTtlMs = config.defaultTtlMs ?? 300000;
+    this.serializer = config.serializer ?? jsonSerializer;
+    this.compactionRatio = config.compactionRatio ?? 2;
+    this.fsync = config.fsync ?? false;
+    this.logger = config.logger ?? consoleLogger;
+  }
+
+  async get(key: string): Promise<V | undefined> {
+    return this.run(undefined, async () => this.read(key));
+  }
+
+  async set(key: string, value: V, ttlMs: number): Promise<void> {
+    await this.setMany([{ key, value, ttlMs }]);
+  }
+
+  async del(key: string): Promise<void> {
+    await this.delMany([key]);
+  }
+
+  async getMany(keys: string[]): Promise<(V | undefined)[]> {
+    return this.run(
+      keys.map(() => undefined),
+      async () => {
+        const values: (V | undefined)[] = [];
+        for (const key of keys) {
+          values.push(await this.read(key));
+        }
+        return values;
+      }
+    );
+  }
+
+  /**
+   * Append all entries in one write
+   */
+  async setMany(entries: CacheEntryInput<V>[]): Promise<void> {
+    await this.run(undefined, async () => {
+      const now = Date.now();
+      const lines: { key: string; line: Buffer; expiresAt?: number }[] = [];
+
+      for (const { key, value, ttlMs } of entries) {
+        const expiresAt = now + (ttlMs || this.defaultTtlMs);
+        let line: Buffer;
+        try {
+          line = encodeLine({ k: key, x: expiresAt, ...this.encodeValue(value) });
+        } catch (error) {
+          this.logger.warn(`FileCache.set serialize error for key ${key}:`, error);
+          continue;
+        }
+
+        if (line.length <= this.maxBytes) {
+          lines.push({ key, line, expiresAt });
+        } else if (this.persisted.has(key)) {
+          // Too large to cache; don't let the previous value come back on reload
+          lines.push({ key, line: encodeLine({ k: key, d: 1 }) });
+        }
+      }
+      if (lines.length === 0) return;
+
+      let offset = await this.append(lines.map(({ line }) => line));
+      for (const { key, line, expiresAt } of lines) {
+        this.drop(key);
+        if (expiresAt === undefined) {
+          this.persisted.delete(key);
+        } else {
+          this.makeRoom(line.length);
+          this.index.set(key, { offset, length: line.length, expiresAt });
+          this.persisted.add(key);
+          this.liveBytes += line.length;
+        }
+        offset += line.length;
+      }
+
+      await this.maybeCompact();
+    });
+  }
+
+  /**
+   * Drop keys and append tombstones so they stay deleted after a restart
+   */
+  async delMany(keys: string[]): Promise<void> {
+    await this.run(undefined, async () => {
+      const tombstones: Buffer[] = [];
+      for (const key of keys) {
+        this.drop(key);
+        // Only keys with a record in the file can come back on reload
+        if (this.persisted.delete(key)) {
+          tombstones.push(encodeLine({ k: key, d: 1 }));
+        }
+      }
+
+      if (tombstones.length > 0) {
+        await this.append(tombstones);
+        await this.maybeCompact();
+      }
+    });
+  }
+
+  /**
+   * Remove all entries and truncate the file
+   */
+  async clear(): Promise<void> {
+    await this.run(undefined, async () => {
+      await this.handle!.truncate(0);
+      this.index.clear();
+      this.persisted.clear();
+      this.fileSize = 0;
+      this.liveBytes = 0;
+    });
+  }
+
+  /**
+   * Keys of unexpired entries, including those loaded from an earlier run
+   */
+  async keys(): Promise<string[]> {
+    return this.run([], async () => {
+      const now = Date.now();
+      return Array.from(this.index)
+        .filter(([, entry]) => entry.expiresAt > now)
+        .map(([key]) => key);
+    });
+  }
+
+  /**
+   * Get current number of entries
+   */
+  size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * Get bytes of live entries on disk
+   */
+  bytes(): number {
+    return this.liveBytes;
+  }
+
+  /**
+   * Rewrite the file with only live entries
+   */
+  async compact(): Promise<void> {
+    await this.run(undefined, () => this.rewrite());
+  }
+
+  /**
+   * Close the file; the cache can't be used afterwards
+   */
+  async destroy(): Promise<void> {
+    await this.run(undefined, async () => {
+      await this.handle?.close();
+      this.handle = undefined;
+      this.index.clear();
+    });
+  }
+
+  /**
+   * Run fn after earlier operations, opening the file first
+   * File operations never overlap, so compaction can swap the file safely
+   */
+  private run<T>(fallback: T, fn: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(async () => {
+      this.opened ??= this.load();
+      await this.opened;
+      if (!this.handle) return fallback;
+      return fn();
+    });
+
+    this.queue = result.catch(() => undefined);
+    return result.catch((error) => {
+      this.logger.warn(`FileCache error (${this.path}):`, error);
+      return fallback;
+    });
+  }
+
+  /**
+   * Open the log and rebuild the index from it
+   */
+  private async load(): Promise<void> {
+    try {
+      await mkdir(dirname(this.path), { recursive: true });
+      this.handle = await open(this.path, 'a+');
+    } catch (error) {
+      this.logger.warn(`FileCache could not open ${this.path}; caching disabled:`, error);
+      return;
+    }
+
+    const data = await this.handle.readFile();
+    const now = Date.now();
+    let start = 0;
+
+    while (start < data.length) {
+      const end = data.indexOf(0x0a, start);
+      if (end === -1) break; // Torn last line: no newline
+
+      let record: LogRecord | undefined;
+      try {
+        record = JSON.parse(data.toString('utf-8', start, end));
+      } catch {
+        this.logger.warn(`FileCache skipped a corrupt record at offset ${start} in ${this.path}`);
+      }
+
+      const length = end + 1 - start;
+      if (record && 'd' in record) {
+        this.drop(record.k);
+        this.persisted.delete(record.k);
+      } else if (record) {
+        this.drop(record.k);
+        this.persisted.add(record.k);
+        if (record.x > now) {
+          this.makeRoom(length);
+          this.index.set(record.k, { offset: start, length, expiresAt: record.x });
+          this.liveBytes += length;
+        }
+      }
+      start = end + 1;
+    }
+
+    // Cut off a partial write so new records start on a fresh line
+    if (start < data.length) {
+      this.logger.warn(`FileCache truncated an incomplete record at offset ${start} in ${this.path}`);
+      await this.handle.truncate(start);
+    }
+    this.fileSize = start;
+
+    await this.maybeCompact();
+  }
+
+  private async read(key: string): Promise<V | undefined> {
+    const entry = this.index.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (Date.now() >= entry.expiresAt) {
+      this.drop(key);
+      return undefined;
+    }
+
+    // Move to end (most recent)
+    this.index.delete(key);
+    this.index.set(key, entry);
+
+    const buffer = Buffer.alloc(entry.length);
+    await this.handle!.read(buffer, 0, entry.length, entry.offset);
+    try {
+      const record = JSON.parse(buffer.toString('utf-8')) as Extract<LogRecord, { v: string }>;
+      return this.serializer.deserialize(
+        record.b ? Buffer.from(record.v, 'base64') : record.v
+      ) as V;
+    } catch (error) {
+      this.logger.warn(`FileCache.get parse error for key ${key}:`, error);
+      this.drop(key);
+      return undefined;
+    }
+  }
+
+  /**
+   * Append lines; resolves to the offset of the first one
+   */
+  private async append(lines: Buffer[]): Promise<number> {
+    const offset = this.fileSize;
+    const buffer = Buffer.concat(lines);
+    await this.handle!.write(buffer);
+    if (this.fsync) {
+      await this.handle!.sync();
+    }
+    this.fileSize += buffer.length;
+    return offset;
+  }
+
+  private encodeValue(value: V): { v: string; b?: 1 } {
+    const data = this.serializer.serialize(value);
+    if (typeof data === 'string') {
+      return { v: data };
+    }
+    return { v: Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString('base64'), b: 1 };
+  }
+
+  /**
+   * Remove a key from the index (its record becomes garbage)
+   */
+  private drop(key: string): void {
+    const entry = this.index.get(key);
+    if (entry) {
+      this.liveBytes -= entry.length;
+      this.index.delete(key);
+    }
+  }
+
+  /**
+   * Evict least recently used entries until one of `length` bytes fits
+   * Evicted records stay in the file and come back on reload if unexpired;
+   * that's safe, since only del() means a value is wrong.
+   */
+  private makeRoom(length: number): void {
+    while (
+      this.index.size > 0 &&
+      (this.index.size >= this.maxItems || this.liveBytes + length > this.maxBytes)
+    ) {
+      const oldest = this.index.keys().next().value as string;
+      this.drop(oldest);
+    }
+  }
+
+  private async maybeCompact(): Promise<void> {
+    if (
+      this.fileSize > MIN_COMPACTION_BYTES &&
+      this.fileSize > this.liveBytes * this.compactionRatio
+    ) {
+      await this.rewrite();
+    }
+  }
+
+  private async rewrite(): Promise<void> {
+    const tmpPath = `${this.path}.tmp`;
+    const tmp = await open(tmpPath, 'w');
+    const now = Date.now();
+    const entries = new Map<string, IndexEntry>();
+    let offset = 0;
+
+    try {
+      for (const [key, entry] of this.index) {
+        if (now >= entry.expiresAt) continue;
+
+        const buffer = Buffer.alloc(entry.length);
+        await this.handle!.read(buffer, 0, entry.length, entry.offset);
+        await tmp.write(buffer);
+        entries.set(key, { ...entry, offset });
+        offset += entry.length;
+      }
+      await tmp.sync();
+    } finally {
+      await tmp.close();
+    }
+
+    await rename(tmpPath, this.path);
+    await this.handle!.close();
+    this.handle = await open(this.path, 'a+');
+
+    this.index.clear();
+    this.persisted.clear();
+    this.liveBytes = 0;
+    for (const [key, entry] of entries) {
+      this.index.set(key, entry);
+      this.persisted.add(key);
+      this.liveBytes += entry.length;
+    }
+    this.fileSize = offset;
+  }
+}
+
+function encodeLine(record: LogRecord): Buffer {
+  return Buffer.from(JSON.stringify(record) + '\n', 'utf-8');
+}
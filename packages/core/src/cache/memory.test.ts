@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { MemoryLRU, type MemoryLRUConfig } from './memory';
+import { serializedSize, structuralSize } from './size';
+
+const caches: MemoryLRU<string>[] = [];
+
+afterEach(() => {
+  caches.splice(0).forEach((cache) => cache.destroy());
+});
+
+/**
+ * Cache whose entries weigh their string length in bytes
+ */
+function createCache(config: MemoryLRUConfig<string> = {}) {
+  const cache = new MemoryLRU<string>({
+    enableBackgroundCleanup: false,
+    sizeEstimator: (value) => value.length,
+    ...config,
+  });
+  caches.push(cache);
+  return cache;
+}
+
+const bytes = (n: number, fill = 'x') => fill.repeat(n);
+
+describe('MemoryLRU', () => {
+  describe('maxItems', () => {
+    it('evicts the least recently used entry', async () => {
+      const cache = createCache({ maxItems: 2 });
+      await cache.set('a', 'a', 1000);
+      await cache.set('b', 'b', 1000);
+      await cache.get('a');
+
+      await cache.set('c', 'c', 1000);
+
+      expect(await cache.getMany(['a', 'b', 'c'])).toEqual(['a', undefined, 'c']);
+    });
+  });
+
+  describe('maxBytes', () => {
+    it('evicts least recently used entries until the new one fits', async () => {
+      const cache = createCache({ maxBytes: 10 });
+      await cache.set('a', bytes(4), 1000);
+      await cache.set('b', bytes(4), 1000);
+      await cache.get('a');
+
+      await cache.set('c', bytes(4), 1000);
+
+      expect(await cache.get('b')).toBeUndefined();
+      expect(cache.size()).toBe(2);
+      expect(cache.bytes()).toBe(8);
+
+      await cache.set('d', bytes(10), 1000);
+      expect(cache.size()).toBe(1);
+      expect(cache.bytes()).toBe(10);
+    });
+
+    it('accounts for replaced, deleted and cleared entries', async () => {
+      const cache = createCache({ maxBytes: 100 });
+      await cache.set('a', bytes(10), 1000);
+      await cache.set('a', bytes(3), 1000);
+      await cache.setMany([
+        { key: 'b', value: bytes(5), ttlMs: 1000 },
+        { key: 'c', value: bytes(7), ttlMs: 1000 },
+      ]);
+      expect(cache.bytes()).toBe(15);
+
+      await cache.del('b');
+      await cache.delMany(['c', 'missing']);
+      expect(cache.bytes()).toBe(3);
+
+      await cache.clear();
+      expect(cache.bytes()).toBe(0);
+    });
+
+    it('releases the bytes of entries found expired', async () => {
+      const cache = createCache({ maxBytes: 100 });
+      await cache.set('a', bytes(10), 1);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      expect(await cache.get('a')).toBeUndefined();
+      expect(cache.bytes()).toBe(0);
+    });
+  });
+
+  describe('maxItemBytes', () => {
+    it("doesn't cache entries larger than the limit, and drops the old value", async () => {
+      const cache = createCache({ maxItemBytes: 5 });
+      await cache.set('a', bytes(5), 1000);
+      await cache.set('b', bytes(1), 1000);
+
+      await cache.set('a', bytes(6), 1000);
+
+      expect(await cache.get('a')).toBeUndefined();
+      expect(await cache.get('b')).toBe('x');
+      expect(cache.bytes()).toBe(1);
+    });
+
+    it("is capped by maxBytes, so one entry can't flush the cache", async () => {
+      const cache = createCache({ maxBytes: 8, maxItemBytes: 100 });
+      await cache.set('a', bytes(4), 1000);
+
+      await cache.set('big', bytes(9), 1000);
+
+      expect(await cache.get('a')).toBe('xxxx');
+      expect(await cache.get('big')).toBeUndefined();
+    });
+  });
+
+  describe('size estimation', () => {
+    it('measures entries only when a byte limit or estimator is set', async () => {
+      const unmeasured = new MemoryLRU<string>({ enableBackgroundCleanup: false });
+      const structural = new MemoryLRU<string>({
+        enableBackgroundCleanup: false,
+        maxBytes: 1000,
+      });
+      const serialized = new MemoryLRU<string>({
+        enableBackgroundCleanup: false,
+        sizeEstimator: 'serialized',
+      });
+      caches.push(unmeasured, structural, serialized);
+      const value = bytes(10);
+
+      await Promise.all([unmeasured, structural, serialized].map((c) => c.set('a', value, 1000)));
+
+      expect(unmeasured.bytes()).toBe(0);
+      expect(structural.bytes()).toBe(structuralSize(value));
+      expect(serialized.bytes()).toBe(serializedSize(value));
+    });
+
+    it('counts shared references once', () => {
+      const row = { title: bytes(100) };
+      expect(structuralSize([row, row])).toBeLessThan(structuralSize([row, { ...row }]));
+    });
+  });
+});
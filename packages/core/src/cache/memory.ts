@@ -1,7 +1,11 @@
-import { Cache } from './types';
+import { Cache, CacheEntryInput } from './types';
+import { structuralSize, serializedSize, type SizeEstimator } from './size';
 
-export interface MemoryLRUConfig {
+export interface MemoryLRUConfig<V = any> {
   maxItems?: number; // Default: 10,000
+  maxBytes?: number; // Default: unbounded (estimated bytes across all entries)
+  maxItemBytes?: number; // Default: unbounded (larger entries are not cached)
+  sizeEstimator?: 'structural' | 'serialized' | SizeEstimator<V>; // Default: 'structural'
   defaultTtlMs?: number; // Default: 300,000 (5 minutes)
   enableBackgroundCleanup?: boolean; // Default: true
   cleanupIntervalMs?: number; // Default: 60,000 (1 minute)
@@ -11,23 +15,45 @@ interface CacheEntry<V> {
   value: V;
   expiresAt: number;
   lastAccessed: number;
+  bytes: number;
 }
 
 /**
  * In-memory LRU cache with TTL support
  * Uses Map insertion order to optimize LRU eviction (O(1) instead of O(n))
+ *
+ * Entries are only measured when maxBytes, maxItemBytes or sizeEstimator is
+ * set; otherwise bytes() reports 0.
  */
 export class MemoryLRU<V> implements Cache<V> {
   private cache: Map<string, CacheEntry<V>>;
   private readonly maxItems: number;
+  private readonly maxBytes: number;
+  private readonly maxItemBytes: number;
+  private readonly estimate?: SizeEstimator<V>;
   private readonly defaultTtlMs: number;
+  private totalBytes = 0;
   private cleanupTimer?: NodeJS.Timeout;
 
-  constructor(config: MemoryLRUConfig = {}) {
+  constructor(config: MemoryLRUConfig<V> = {}) {
     this.cache = new Map();
     this.maxItems = config.maxItems ?? 10000;
+    this.maxBytes = config.maxBytes ?? Infinity;
+    this.maxItemBytes = Math.min(config.maxItemBytes ?? Infinity, this.maxBytes);
     this.defaultTtlMs = config.defaultTtlMs ?? 300000;
 
+    if (typeof config.sizeEstimator === 'function') {
+      this.estimate = config.sizeEstimator;
+    } else if (config.sizeEstimator === 'serialized') {
+      this.estimate = serializedSize;
+    } else if (
+      config.sizeEstimator === 'structural' ||
+      config.maxBytes !== undefined ||
+      config.maxItemBytes !== undefined
+    ) {
+      this.estimate = structuralSize;
+    }
+
     const enableCleanup = config.enableBackgroundCleanup ?? true;
     if (enableCleanup) {
       const interval = config.cleanupIntervalMs ?? 60000;
@@ -46,7 +72,7 @@ export class MemoryLRU<V> implements Cache<V> {
     // Check expiration
     const now = Date.now();
     if (now >= entry.expiresAt) {
-      this.cache.delete(key);
+      this.remove(key);
       return undefined;
     }
 
@@ -60,9 +86,21 @@ export class MemoryLRU<V> implements Cache<V> {
   async set(key: string, value: V, ttlMs: number): Promise<void> {
     const now = Date.now();
     const expiresAt = now + (ttlMs || this.defaultTtlMs);
+    const bytes = this.estimate ? this.estimate(value) : 0;
+
+    // The previous value is replaced either way
+    this.remove(key);
 
-    // Evict oldest if at capacity
-    if (this.cache.size >= this.maxItems && !this.cache.has(key)) {
+    // Too large to cache; storing it would flush everything else
+    if (bytes > this.maxItemBytes) {
+      return;
+    }
+
+    // Evict oldest until within item count and byte budget
+    while (
+      this.cache.size > 0 &&
+      (this.cache.size >= this.maxItems || this.totalBytes + bytes > this.maxBytes)
+    ) {
       this.evictOldest();
     }
 
@@ -70,11 +108,29 @@ export class MemoryLRU<V> implements Cache<V> {
       value,
       expiresAt,
       lastAccessed: now,
+      bytes,
     });
+    this.totalBytes += bytes;
   }
 
   async del(key: string): Promise<void> {
-    this.cache.delete(key);
+    this.remove(key);
+  }
+
+  async getMany(keys: string[]): Promise<(V | undefined)[]> {
+    return Promise.all(keys.map((key) => this.get(key)));
+  }
+
+  async setMany(entries: CacheEntryInput<V>[]): Promise<void> {
+    for (const { key, value, ttlMs } of entries) {
+      await this.set(key, value, ttlMs);
+    }
+  }
+
+  async delMany(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.remove(key);
+    }
   }
 
   /**
@@ -91,7 +147,7 @@ export class MemoryLRU<V> implements Cache<V> {
     }
 
     for (const key of toDelete) {
-      this.cache.delete(key);
+      this.remove(key);
     }
   }
 
@@ -102,7 +158,15 @@ export class MemoryLRU<V> implements Cache<V> {
   private evictOldest(): void {
     const firstKey = this.cache.keys().next().value;
     if (firstKey !== undefined) {
-      this.cache.delete(firstKey);
+      this.remove(firstKey);
+    }
+  }
+
+  private remove(key: string): void {
+    const entry = this.cache.get(key);
+    if (entry) {
+      this.totalBytes -= entry.bytes;
+      this.cache.delete(key);
     }
   }
 
@@ -111,6 +175,7 @@ export class MemoryLRU<V> implements Cache<V> {
    */
   async clear(): Promise<void> {
     this.cache.clear();
+    this.totalBytes = 0;
   }
 
   /**
@@ -120,6 +185,13 @@ export class MemoryLRU<V> implements Cache<V> {
     return this.cache.size;
   }
 
+  /**
+   * Get estimated bytes held by all entries
+   */
+  bytes(): number {
+    return this.totalBytes;
+  }
+
   /**
    * Cleanup resources
    */
@@ -129,5 +201,6 @@ export class MemoryLRU<V> implements Cache<V> {
       this.cleanupTimer = undefined;
     }
     this.cache.clear();
+    this.totalBytes = 0;
   }
 }
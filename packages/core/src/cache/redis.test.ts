@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Redis } from 'ioredis';
+import { RedisCache, type RedisCacheConfig } from './redis';
+
+const silent = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+/**
+ * In-memory stand-in for the ioredis commands RedisCache sends
+ * hold() makes the next GET of a key wait until the returned release is called
+ */
+function createClient() {
+  const store = new Map<string, string>();
+  const held = new Map<string, Promise<void>>();
+  const client = {
+    isCluster: false,
+    store,
+    hold(key: string) {
+      let release!: () => void;
+      held.set(key, new Promise<void>((resolve) => (release = resolve)));
+      return release;
+    },
+    get: vi.fn(async (key: string) => {
+      const value = store.get(key) ?? null; // Read when sent, like Redis
+      const wait = held.get(key);
+      held.delete(key);
+      await wait;
+      return value;
+    }),
+    mget: vi.fn(async (...keys: string[]) => keys.map((key) => store.get(key) ?? null)),
+    setex: vi.fn(async (key: string, _ttl: number, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    }),
+    del: vi.fn(async (...keys: string[]) => keys.filter((key) => store.delete(key)).length),
+    incr: vi.fn(async (key: string) => {
+      const value = Number(store.get(key) ?? '0') + 1;
+      store.set(key, String(value));
+      return value;
+    }),
+  };
+  return client;
+}
+
+function createCache(overrides: Partial<RedisCacheConfig> = {}) {
+  const client = createClient();
+  const cache = new RedisCache<unknown>({
+    client: client as unknown as Redis,
+    generations: true,
+    logger: silent,
+    ...overrides,
+  });
+  return { client, cache };
+}
+
+describe('RedisCache generations', () => {
+  it('namespaces keys by the stored generation', async () => {
+    const { client, cache } = createCache();
+    client.store.set('ik:generation', '4');
+
+    await cache.set('a', 1, 1000);
+
+    expect(client.store.has('ik:4:a')).toBe(true);
+    expect(await cache.get('a')).toBe(1);
+    expect(await cache.getMany(['a', 'b'])).toEqual([1, undefined]);
+  });
+
+  it('clears with one INCR and stops reading older keys', async () => {
+    const { client, cache } = createCache();
+    await cache.set('a', 1, 1000);
+
+    await cache.clear();
+
+    expect(client.incr).toHaveBeenCalledTimes(1);
+    expect(client.store.get('ik:generation')).toBe('1');
+    expect(client.store.has('ik:0:a')).toBe(true); // Left to expire
+    expect(await cache.get('a')).toBeUndefined();
+  });
+
+  it('shares one GET between concurrent refreshes and caches it', async () => {
+    const { client, cache } = createCache();
+
+    await Promise.all([cache.get('a'), cache.get('b'), cache.getMany(['c'])]);
+    await cache.get('d');
+
+    const reads = client.get.mock.calls.filter(([key]) => key === 'ik:generation');
+    expect(reads).toHaveLength(1);
+  });
+
+  it("sees another instance's clear after generationRefreshMs", async () => {
+    const { client, cache } = createCache({ generationRefreshMs: 5 });
+    const other = new RedisCache<unknown>({
+      client: client as unknown as Redis,
+      generations: true,
+      logger: silent,
+    });
+    await cache.set('a', 1, 1000);
+
+    await other.clear();
+    expect(await cache.get('a')).toBe(1); // Still within generationRefreshMs
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(await cache.get('a')).toBeUndefined();
+  });
+
+  it('keeps the generation of a clear() over a GET sent before it', async () => {
+    const { client, cache } = createCache();
+    await cache.set('a', 1, 1000); // Generation 0
+    const release = client.hold('ik:generation');
+
+    // Refresh after the cached generation expires; its GET reads 0
+    vi.useFakeTimers({ now: Date.now() + 5000, toFake: ['Date'] });
+    try {
+      const stale = cache.get('a');
+      await cache.clear(); // Generation 1
+      release();
+
+      expect(await stale).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+
+    await cache.set('b', 2, 1000);
+    expect(client.store.has('ik:1:b')).toBe(true);
+    expect(await cache.get('a')).toBeUndefined();
+  });
+});
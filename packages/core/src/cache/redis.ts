@@ -1,13 +1,29 @@
-import type { Redis } from 'ioredis';
-import { Cache } from './types';
+import type { Redis, Cluster } from 'ioredis';
+import { Cache, CacheEntryInput } from './types';
+import { jsonSerializer, type Serializer } from './serializer';
 import type { Logger } from '../logger';
 import { consoleLogger } from '../logger';
 
 export interface RedisCacheConfig {
-  client: Redis;
+  client: Redis | Cluster;
   prefix?: string; // Default: "ik:"
+  /**
+   * Namespace keys by a generation counter stored in Redis, so clear() is a
+   * single atomic INCR and old keys expire by TTL. Default: false (clear() scans)
+   */
+  generations?: boolean;
+  generationRefreshMs?: number; // Default: 1,000 (how soon a clear() by another instance is seen)
+  /**
+   * Redis Cluster hash tag added to every key so batch commands (MGET,
+   * UNLINK, pipelines) stay on one slot. true uses the prefix without its
+   * trailing ":". Default: none (on Cluster, batch methods send one command
+   * per key)
+   */
+  hashTag?: string | boolean;
   defaultTtlMs?: number; // Default: 300,000 (5 minutes)
   logger?: Logger; // Default: consoleLogger
+  serializer?: Serializer; // Default: jsonSerializer (round-trips Date, BigInt, Buffer, ...)
+  throwErrors?: boolean; // Default: false (true: rethrow Redis errors, e.g. for CircuitBreakerCache)
 }
 
 /**
@@ -17,65 +33,265 @@ export interface RedisCacheConfig {
  * - get() on error → return undefined (cache miss)
  * - set() on error → silently fail (log warning)
  * - del() on error → silently fail (log warning)
+ * - Batch methods behave like their single-key versions for every key
+ * With throwErrors, command errors are rethrown instead (values that fail
+ * to deserialize are still misses).
+ *
+ * Key layout: <prefix>[{<hashTag>}:][<generation>:]<key>
+ *
+ * On Cluster without a hash tag, keys span slots, so batch methods send
+ * concurrent single-key commands instead of MGET, UNLINK and pipelines.
  */
 export class RedisCache<V> implements Cache<V> {
-  private readonly client: Redis;
-  private readonly prefix: string;
+  private readonly client: Redis | Cluster;
+  private readonly prefix: string; // Includes the hash tag, if any
+  private readonly generationKey?: string;
+  private readonly generationRefreshMs: number;
+  private generation?: { value: string; fetchedAt: number };
+  private generationPending?: Promise<string>;
+  private generationSeq = 0; // Bumped by clear(); refreshes started earlier are dropped
   private readonly defaultTtlMs: number;
   private readonly logger: Logger;
+  private readonly serializer: Serializer;
+  private readonly throwErrors: boolean;
+  private readonly perKey: boolean; // No multi-key commands: Cluster keys may span slots
 
   constructor(config: RedisCacheConfig) {
     this.client = config.client;
-    this.prefix = config.prefix ?? 'ik:';
+    const prefix = config.prefix ?? 'ik:';
+    const tag = config.hashTag === true ? prefix.replace(/:$/, '') : config.hashTag;
+    this.prefix = tag ? `${prefix}{${tag}}:` : prefix;
+    this.generationKey = config.generations ? `${this.prefix}generation` : undefined;
+    this.generationRefreshMs = config.generationRefreshMs ?? 1000;
     this.defaultTtlMs = config.defaultTtlMs ?? 300000;
     this.logger = config.logger ?? consoleLogger;
+    this.serializer = config.serializer ?? jsonSerializer;
+    this.throwErrors = config.throwErrors ?? false;
+    this.perKey = config.client.isCluster && !tag;
   }
 
   async get(key: string): Promise<V | undefined> {
     try {
-      const prefixedKey = this.prefix + key;
-      const value = await this.client.get(prefixedKey);
+      const prefixedKey = await this.keyFor(key);
+      const value = this.serializer.binary
+        ? await this.client.getBuffer(prefixedKey)
+        : await this.client.get(prefixedKey);
 
       if (value === null) {
         return undefined;
       }
 
-      return JSON.parse(value) as V;
+      try {
+        return this.serializer.deserialize(value) as V;
+      } catch (error) {
+        this.logger.warn(`RedisCache.get parse error for key ${key}:`, error);
+        return undefined;
+      }
     } catch (error) {
-      this.logger.warn(`RedisCache.get error for key ${key}:`, error);
+      this.fail(`RedisCache.get error for key ${key}:`, error);
       return undefined; // Treat as cache miss
     }
   }
 
   async set(key: string, value: V, ttlMs: number): Promise<void> {
     try {
-      const prefixedKey = this.prefix + key;
-      const serialized = JSON.stringify(value);
+      const prefixedKey = await this.keyFor(key);
+      const serialized = this.encode(value);
       const ttlSeconds = Math.ceil((ttlMs || this.defaultTtlMs) / 1000);
 
       // Use SETEX for atomic set + expiration
       await this.client.setex(prefixedKey, ttlSeconds, serialized);
     } catch (error) {
-      this.logger.warn(`RedisCache.set error for key ${key}:`, error);
+      this.fail(`RedisCache.set error for key ${key}:`, error);
       // Silently fail - don't throw
     }
   }
 
   async del(key: string): Promise<void> {
     try {
-      const prefixedKey = this.prefix + key;
+      const prefixedKey = await this.keyFor(key);
       await this.client.del(prefixedKey);
     } catch (error) {
-      this.logger.warn(`RedisCache.del error for key ${key}:`, error);
+      this.fail(`RedisCache.del error for key ${key}:`, error);
       // Silently fail - don't throw
     }
   }
 
   /**
-   * Clear all keys with this cache's prefix (use with caution)
-   * Note: Not atomic - keys may be added/removed during scan
+   * Fetch several keys with one MGET
+   */
+  async getMany(keys: string[]): Promise<(V | undefined)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    try {
+      const namespace = await this.namespace();
+      const prefixedKeys = keys.map((key) => namespace + key);
+      const values = this.perKey
+        ? await Promise.all(
+            prefixedKeys.map((key) =>
+              this.serializer.binary ? this.client.getBuffer(key) : this.client.get(key)
+            )
+          )
+        : this.serializer.binary
+          ? await this.client.mgetBuffer(...prefixedKeys)
+          : await this.client.mget(...prefixedKeys);
+      return values.map((value, i) => {
+        if (value === null) {
+          return undefined;
+        }
+        try {
+          return this.serializer.deserialize(value) as V;
+        } catch (error) {
+          this.logger.warn(`RedisCache.getMany parse error for key ${keys[i]}:`, error);
+          return undefined;
+        }
+      });
+    } catch (error) {
+      this.fail(`RedisCache.getMany error for ${keys.length} keys:`, error);
+      return keys.map(() => undefined); // Treat as cache misses
+    }
+  }
+
+  /**
+   * Write several keys in one pipelined round trip (SETEX per key)
+   */
+  async setMany(entries: CacheEntryInput<V>[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    try {
+      const namespace = await this.namespace();
+      const queued: { key: string; ttlSeconds: number; data: string | Buffer }[] = [];
+      for (const { key, value, ttlMs } of entries) {
+        const ttlSeconds = Math.ceil((ttlMs || this.defaultTtlMs) / 1000);
+        try {
+          queued.push({ key, ttlSeconds, data: this.encode(value) });
+        } catch (error) {
+          this.logger.warn(`RedisCache.setMany serialize error for key ${key}:`, error);
+        }
+      }
+
+      let errors: unknown[];
+      if (this.perKey) {
+        const results = await Promise.allSettled(
+          queued.map(({ key, ttlSeconds, data }) =>
+            this.client.setex(namespace + key, ttlSeconds, data)
+          )
+        );
+        errors = results.map((result) => (result.status === 'rejected' ? result.reason : null));
+      } else {
+        const pipeline = this.client.pipeline();
+        queued.forEach(({ key, ttlSeconds, data }) =>
+          pipeline.setex(namespace + key, ttlSeconds, data)
+        );
+        errors = ((await pipeline.exec()) ?? []).map(([error]) => error);
+      }
+      errors.forEach((error, i) => {
+        if (error) {
+          this.logger.warn(`RedisCache.setMany error for key ${queued[i].key}:`, error);
+        }
+      });
+    } catch (error) {
+      this.fail(`RedisCache.setMany error for ${entries.length} keys:`, error);
+    }
+  }
+
+  /**
+   * Delete several keys with one UNLINK (memory is reclaimed off the main thread)
+   */
+  async delMany(keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+
+    try {
+      const namespace = await this.namespace();
+      const prefixedKeys = keys.map((key) => namespace + key);
+      if (this.perKey) {
+        await Promise.all(prefixedKeys.map((key) => this.client.unlink(key)));
+      } else {
+        await this.client.unlink(...prefixedKeys);
+      }
+    } catch (error) {
+      this.fail(`RedisCache.delMany error for ${keys.length} keys:`, error);
+    }
+  }
+
+  private encode(value: V): string | Buffer {
+    const data = this.serializer.serialize(value);
+    return typeof data === 'string' ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  /**
+   * Prefix for keys in the current generation
+   * The generation is cached for generationRefreshMs; concurrent refreshes share one GET
+   */
+  private async namespace(): Promise<string> {
+    if (!this.generationKey) {
+      return this.prefix;
+    }
+
+    const cached = this.generation;
+    if (cached && Date.now() - cached.fetchedAt < this.generationRefreshMs) {
+      return `${this.prefix}${cached.value}:`;
+    }
+
+    this.generationPending ??= this.refreshGeneration(this.generationKey);
+
+    return `${this.prefix}${await this.generationPending}:`;
+  }
+
+  /**
+   * Read the generation from Redis
+   * A GET sent before a clear() may answer with the generation it replaced,
+   * so once clear() has stored its INCR result, that result wins.
+   */
+  private refreshGeneration(generationKey: string): Promise<string> {
+    const seq = this.generationSeq;
+    return this.client
+      .get(generationKey)
+      .then((value) => {
+        if (seq !== this.generationSeq && this.generation) {
+          return this.generation.value;
+        }
+        const generation = value ?? '0';
+        this.generation = { value: generation, fetchedAt: Date.now() };
+        return generation;
+      })
+      .finally(() => {
+        this.generationPending = undefined;
+      });
+  }
+
+  private async keyFor(key: string): Promise<string> {
+    return (await this.namespace()) + key;
+  }
+
+  /**
+   * Clear all keys with this cache's prefix
+   *
+   * With generations: one atomic INCR; keys of older generations are no
+   * longer read and expire by TTL. Other instances see the new generation
+   * within generationRefreshMs.
+   *
+   * Without: SCAN + DEL (use with caution). Not atomic - keys may be
+   * added/removed during scan.
    */
   async clear(): Promise<void> {
+    if (this.generationKey) {
+      try {
+        const generation = await this.client.incr(this.generationKey);
+        this.generationSeq++;
+        this.generation = { value: String(generation), fetchedAt: Date.now() };
+      } catch (error) {
+        this.fail('RedisCache.clear error:', error);
+      }
+      return;
+    }
+
     this.logger.warn?.('RedisCache.clear() is not atomic and may miss keys added during scan');
     try {
       const pattern = this.prefix + '*';
@@ -91,12 +307,21 @@ export class RedisCache<V> implements Cache<V> {
         );
         cursor = newCursor;
 
-        if (keys.length > 0) {
+        if (this.perKey) {
+          await Promise.all(keys.map((key) => this.client.del(key)));
+        } else if (keys.length > 0) {
           await this.client.del(...keys);
         }
       } while (cursor !== '0');
     } catch (error) {
-      this.logger.warn('RedisCache.clear error:', error);
+      this.fail('RedisCache.clear error:', error);
+    }
+  }
+
+  private fail(message: string, error: unknown): void {
+    if (this.throwErrors) {
+      throw error;
     }
+    this.logger.warn(message, error);
   }
 }
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createJsonSerializer, jsonSerializer, setDefaultDecimal } from './serializer';
+
+// Shaped like decimal.js, which is what isDecimal() detects
+class FakeDecimal {
+  d = [1];
+  e = 0;
+  s = 1;
+  constructor(private readonly value: string) {}
+  toFixed(): string {
+    return this.value;
+  }
+  toString(): string {
+    return this.value;
+  }
+}
+
+const roundTrip = (value: unknown, serializer = jsonSerializer) =>
+  serializer.deserialize(serializer.serialize(value));
+
+describe('createJsonSerializer', () => {
+  afterEach(() => {
+    setDefaultDecimal(undefined);
+  });
+
+  it('round-trips plain JSON values unchanged', () => {
+    const value = { id: 1, title: 'Hello', tags: ['a', 'b'], author: null, draft: false };
+    expect(jsonSerializer.serialize(value)).toBe(JSON.stringify(value));
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('round-trips the types Prisma returns', () => {
+    const value = {
+      createdAt: new Date('2024-01-02T03:04:05.678Z'),
+      views: 9007199254740993n,
+      avatar: Buffer.from([1, 2, 3]),
+      bytes: new Uint8Array([4, 5, 6]),
+      missing: undefined,
+      ratio: NaN,
+      limit: Infinity,
+      floor: -Infinity,
+    };
+
+    const result = roundTrip(value) as typeof value;
+
+    expect(result.createdAt).toBeInstanceOf(Date);
+    expect(result.createdAt.getTime()).toBe(value.createdAt.getTime());
+    expect(result.views).toBe(9007199254740993n);
+    expect(Buffer.isBuffer(result.avatar)).toBe(true);
+    expect([...result.avatar]).toEqual([1, 2, 3]);
+    expect(result.bytes).toBeInstanceOf(Uint8Array);
+    expect(Buffer.isBuffer(result.bytes)).toBe(false);
+    expect([...result.bytes]).toEqual([4, 5, 6]);
+    expect('missing' in result).toBe(true);
+    expect(result.missing).toBeUndefined();
+    expect(result.ratio).toBeNaN();
+    expect(result.limit).toBe(Infinity);
+    expect(result.floor).toBe(-Infinity);
+  });
+
+  it('round-trips Maps and Sets with encoded contents', () => {
+    const when = new Date(0);
+    const result = roundTrip({
+      map: new Map<unknown, unknown>([
+        [1n, when],
+        ['key', new Set([2n])],
+      ]),
+    }) as { map: Map<unknown, unknown> };
+
+    expect(result.map).toBeInstanceOf(Map);
+    expect(result.map.get(1n)).toEqual(when);
+    expect(result.map.get('key')).toEqual(new Set([2n]));
+  });
+
+  it('keeps objects that have their own $ik key', () => {
+    const value = { $ik: 'Date', v: '0', nested: { $ik: 'BigInt' } };
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('decodes Buffers as well as strings', () => {
+    const data = Buffer.from(jsonSerializer.serialize({ id: 1n }) as string);
+    expect(jsonSerializer.deserialize(data)).toEqual({ id: 1n });
+  });
+
+  it('throws on unknown tags', () => {
+    expect(() => jsonSerializer.deserialize('{"$ik":"Nope","v":1}')).toThrow(
+      'Unknown serialized type "Nope"'
+    );
+  });
+
+  describe('Decimals', () => {
+    it('come back as strings by default', () => {
+      expect(roundTrip({ price: new FakeDecimal('12.50') })).toEqual({ price: '12.50' });
+    });
+
+    it('are rebuilt with the decimal option', () => {
+      const serializer = createJsonSerializer({ decimal: (value) => new FakeDecimal(value) });
+      const result = roundTrip({ price: new FakeDecimal('12.50') }, serializer) as {
+        price: FakeDecimal;
+      };
+
+      expect(result.price).toBeInstanceOf(FakeDecimal);
+      expect(result.price.toString()).toBe('12.50');
+    });
+
+    it('are rebuilt with setDefaultDecimal, including by existing serializers', () => {
+      const serializer = createJsonSerializer();
+      setDefaultDecimal((value) => new FakeDecimal(value));
+
+      expect(roundTrip({ price: new FakeDecimal('1') })).toEqual({ price: new FakeDecimal('1') });
+      expect(roundTrip(new FakeDecimal('2'), serializer)).toBeInstanceOf(FakeDecimal);
+
+      setDefaultDecimal(undefined);
+      expect(roundTrip(new FakeDecimal('3'))).toBe('3');
+    });
+
+    it('prefer the decimal option over the default', () => {
+      setDefaultDecimal((value) => new FakeDecimal(value));
+      const serializer = createJsonSerializer({ decimal: (value) => Number(value) });
+
+      expect(roundTrip(new FakeDecimal('4.5'), serializer)).toBe(4.5);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Converts cache values to and from their stored form
+ */
+export interface Serializer {
+  /**
+   * True if serialize() returns bytes; stores then read raw buffers instead
+   * of strings (e.g. MessagePack codecs)
+   */
+  readonly binary?: boolean;
+  serialize(value: unknown): string | Uint8Array;
+  deserialize(data: string | Uint8Array): unknown;
+}
+
+export interface JsonSerializerOptions {
+  /**
+   * Rebuild Decimal values from their string form,
+   * e.g. (value) => new Prisma.Decimal(value)
+   * Default: the reviver set with setDefaultDecimal() (@includekit/prisma
+   * sets Prisma.Decimal), else Decimals come back as strings
+   */
+  decimal?: (value: string) => unknown;
+}
+
+let defaultDecimal: ((value: string) => unknown) | undefined;
+
+/**
+ * Set how serializers without a decimal option rebuild Decimals
+ * Applies to serializers already created; pass undefined to restore strings.
+ */
+export function setDefaultDecimal(decimal: ((value: string) => unknown) | undefined): void {
+  defaultDecimal = decimal;
+}
+
+/**
+ * Key marking an encoded value: { $ik: <type>, v: <payload> }
+ */
+const TAG = '$ik';
+
+type Tagged = { [TAG]: string; v?: any };
+
+/**
+ * JSON codec that round-trips the types Prisma returns
+ *
+ * Date, BigInt, Decimal, Buffer, Uint8Array, Map, Set, undefined and
+ * non-finite numbers are written as tagged objects, so a cache hit returns
+ * the same types as a database read. Plain JSON values are stored as-is.
+ */
+export function createJsonSerializer(options: JsonSerializerOptions = {}): Serializer {
+  const reviveDecimal = (value: string): unknown => {
+    const decimal = options.decimal ?? defaultDecimal;
+    return decimal ? decimal(value) : value;
+  };
+
+  const decode = (value: any): unknown => {
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(decode);
+    }
+    if (typeof value[TAG] === 'string') {
+      return decodeTagged(value as Tagged);
+    }
+    return decodeObject(value);
+  };
+
+  const decodeObject = (value: Record<string, any>): Record<string, unknown> => {
+    const out: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      out[key] = decode(item);
+    }
+    return out;
+  };
+
+  const decodeTagged = ({ [TAG]: type, v }: Tagged): unknown => {
+    switch (type) {
+      case 'undefined':
+        return undefined;
+      case 'Number':
+        return Number(v);
+      case 'BigInt':
+        return BigInt(v);
+      case 'Date':
+        return new Date(Number(v));
+      case 'Decimal':
+        return reviveDecimal(v);
+      case 'Buffer':
+        return Buffer.from(v, 'base64');
+      case 'Uint8Array':
+        return new Uint8Array(Buffer.from(v, 'base64'));
+      case 'Map':
+        return new Map((v as [any, any][]).map(([key, item]) => [decode(key), decode(item)]));
+      case 'Set':
+        return new Set((v as any[]).map(decode));
+      case 'Object':
+        // Plain object that has its own "$ik" key
+        return decodeObject(v);
+      default:
+        throw new Error(`Unknown serialized type "${type}"`);
+    }
+  };
+
+  return {
+    serialize: (value) => JSON.stringify(encode(value)),
+    deserialize: (data) =>
+      decode(JSON.parse(typeof data === 'string' ? data : Buffer.from(data).toString('utf-8'))),
+  };
+}
+
+/**
+ * Default codec (Decimals come back as strings unless setDefaultDecimal() was
+ * called; see createJsonSerializer)
+ */
+export const jsonSerializer: Serializer = createJsonSerializer();
+
+function encode(value: any): unknown {
+  switch (typeof value) {
+    case 'undefined':
+      return { [TAG]: 'undefined' };
+    case 'bigint':
+      return { [TAG]: 'BigInt', v: value.toString() };
+    case 'number':
+      return Number.isFinite(value) ? value : { [TAG]: 'Number', v: String(value) };
+    case 'function':
+    case 'symbol':
+      return undefined; // Dropped, as JSON.stringify does
+    case 'object':
+      break;
+    default:
+      return value;
+  }
+
+  if (value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return { [TAG]: 'Date', v: String(value.getTime()) };
+  }
+  if (Buffer.isBuffer(value)) {
+    return { [TAG]: 'Buffer', v: value.toString('base64') };
+  }
+  if (value instanceof Uint8Array) {
+    const bytes = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    return { [TAG]: 'Uint8Array', v: bytes.toString('base64') };
+  }
+  if (isDecimal(value)) {
+    return { [TAG]: 'Decimal', v: value.toString() };
+  }
+  if (value instanceof Map) {
+    return { [TAG]: 'Map', v: Array.from(value, ([key, item]) => [encode(key), encode(item)]) };
+  }
+  if (value instanceof Set) {
+    return { [TAG]: 'Set', v: Array.from(value, encode) };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => encode(item) ?? null);
+  }
+  if (typeof value.toJSON === 'function') {
+    return encode(value.toJSON());
+  }
+
+  const out: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const encoded = encode(item);
+    if (encoded !== undefined) {
+      out[key] = encoded;
+    }
+  }
+  return TAG in out ? { [TAG]: 'Object', v: out } : out;
+}
+
+/**
+ * Decimal.js instances (Prisma.Decimal), detected without importing Prisma
+ */
+function isDecimal(value: object): value is { toString(): string } {
+  const candidate = value as any;
+  return (
+    typeof candidate.toFixed === 'function' &&
+    Array.isArray(candidate.d) &&
+    typeof candidate.e === 'number' &&
+    typeof candidate.s === 'number'
+  );
+}
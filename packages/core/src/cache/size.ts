@@ -0,0 +1,74 @@
+import { jsonSerializer } from './serializer';
+
+/**
+ * Estimates the memory an entry holds, in bytes
+ */
+export type SizeEstimator<V> = (value: V) => number;
+
+/**
+ * Rough V8 heap footprint of a value, walking objects and arrays
+ * Shared references are counted once; cycles are safe. Good enough to
+ * budget a cache, not an exact measurement.
+ */
+export function structuralSize(value: unknown): number {
+  const seen = new WeakSet<object>();
+
+  const visit = (item: unknown): number => {
+    switch (typeof item) {
+      case 'string':
+        return 12 + item.length * 2;
+      case 'number':
+        return 8;
+      case 'boolean':
+        return 4;
+      case 'bigint':
+        return 16 + Math.ceil(item.toString(16).length / 2);
+      case 'object':
+        break;
+      default:
+        return 0; // undefined, functions, symbols
+    }
+
+    if (item === null) return 0;
+    if (seen.has(item)) return 0;
+    seen.add(item);
+
+    if (ArrayBuffer.isView(item)) return 64 + item.byteLength;
+    if (item instanceof ArrayBuffer) return 32 + item.byteLength;
+    if (item instanceof Date) return 24;
+
+    if (Array.isArray(item)) {
+      let bytes = 16 + item.length * 8;
+      for (const element of item) bytes += visit(element);
+      return bytes;
+    }
+    if (item instanceof Map) {
+      let bytes = 32;
+      for (const [key, element] of item) bytes += 16 + visit(key) + visit(element);
+      return bytes;
+    }
+    if (item instanceof Set) {
+      let bytes = 32;
+      for (const element of item) bytes += 8 + visit(element);
+      return bytes;
+    }
+
+    let bytes = 24;
+    for (const key of Object.keys(item)) {
+      // Property names are usually interned; count the slot, not the string
+      bytes += 8 + visit((item as Record<string, unknown>)[key]);
+    }
+    return bytes;
+  };
+
+  return visit(value);
+}
+
+/**
+ * Length of the value as stored by RedisCache's default codec
+ * Slower than structuralSize, but matches what a shared cache would hold
+ */
+export function serializedSize(value: unknown): number {
+  const data = jsonSerializer.serialize(value);
+  return typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength;
+}
@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TieredCache, type TieredCacheMessage } from './tiered';
+import { MemoryLRU } from './memory';
+import { LocalPubSub } from '../pubsub/local';
+
+const silent = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+const caches: Array<{ destroy(): unknown }> = [];
+
+afterEach(async () => {
+  await Promise.all(caches.splice(0).map((cache) => cache.destroy()));
+});
+
+/**
+ * Replicas sharing one L2 and one eviction channel
+ */
+function createReplicas(count: number, l2 = createL2()) {
+  const pubsub = new LocalPubSub<TieredCacheMessage>({ logger: silent });
+  const replicas = Array.from({ length: count }, () => {
+    const cache = new TieredCache({
+      l2,
+      l1: { enableBackgroundCleanup: false },
+      pubsub,
+      logger: silent,
+    });
+    caches.push(cache);
+    return cache;
+  });
+  return { l2, pubsub, replicas };
+}
+
+function createL2(): MemoryLRU<unknown> {
+  const l2 = new MemoryLRU<unknown>({ enableBackgroundCleanup: false });
+  caches.push(l2);
+  vi.spyOn(l2, 'get');
+  return l2;
+}
+
+describe('TieredCache', () => {
+  it('fills L1 from L2 and serves repeated reads from it', async () => {
+    const l2 = createL2();
+    const {
+      replicas: [a, b],
+    } = createReplicas(2, l2);
+
+    await a.set('k', 1, 60000);
+    expect(await b.get('k')).toBe(1);
+    expect(await b.get('k')).toBe(1);
+
+    expect(l2.get).toHaveBeenCalledTimes(1);
+    expect(a.size()).toBe(1);
+    expect(b.size()).toBe(1);
+  });
+
+  it('fills L1 for the misses of a batch read', async () => {
+    const {
+      l2,
+      replicas: [a],
+    } = createReplicas(1);
+    await l2.set('x', 1, 60000);
+    await l2.set('y', 2, 60000);
+    await a.getMany(['x']);
+
+    expect(await a.getMany(['x', 'missing', 'y'])).toEqual([1, undefined, 2]);
+    expect(a.size()).toBe(2);
+  });
+
+  it('caps the L1 lifetime at l1TtlMs', async () => {
+    const l2 = createL2();
+    const cache = new TieredCache({
+      l2,
+      l1: { enableBackgroundCleanup: false },
+      l1TtlMs: 5,
+      logger: silent,
+    });
+    caches.push(cache);
+
+    await cache.set('k', 1, 60000);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await l2.set('k', 2, 60000); // Changed behind the L1's back
+
+    expect(await cache.get('k')).toBe(2);
+  });
+
+  it("drops other replicas' L1 copies on delete", async () => {
+    const {
+      l2,
+      replicas: [a, b, c],
+    } = createReplicas(3);
+    await a.set('k', 1, 60000);
+    await a.set('other', 2, 60000);
+    await b.get('k');
+    await c.getMany(['k', 'other']);
+
+    await a.del('k');
+
+    expect(await l2.get('k')).toBeUndefined();
+    expect([a.size(), b.size(), c.size()]).toEqual([1, 0, 1]);
+    expect(await b.get('k')).toBeUndefined();
+    expect(await c.get('other')).toBe(2);
+  });
+
+  it("drops other replicas' whole L1 on clear", async () => {
+    const {
+      l2,
+      replicas: [a, b],
+    } = createReplicas(2);
+    await a.set('k', 1, 60000);
+    await b.get('k');
+
+    await a.clear();
+
+    expect(l2.size()).toBe(0);
+    expect(b.size()).toBe(0);
+  });
+
+  it("doesn't refill L1 from an L2 read that overlapped an eviction", async () => {
+    const l2 = createL2();
+    const {
+      replicas: [a, b],
+    } = createReplicas(2, l2);
+    await a.set('k', 1, 60000);
+
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    const get = l2.get.bind(l2);
+    vi.mocked(l2.get).mockImplementationOnce(async (key) => {
+      const value = await get(key); // Read before the delete...
+      await held;
+      return value; // ...answered after its broadcast
+    });
+
+    const reading = b.get('k');
+    await a.del('k');
+    release();
+
+    expect(await reading).toBe(1);
+    expect(b.size()).toBe(0);
+    expect(await b.get('k')).toBeUndefined();
+  });
+
+  it('keeps serving L1 hits while L2 is unavailable, and reports it', async () => {
+    const l2 = createL2();
+    const {
+      replicas: [a],
+    } = createReplicas(1, l2);
+    await a.set('k', 1, 60000);
+    expect(a.isAvailable()).toBe(true);
+
+    Object.assign(l2, { isAvailable: () => false });
+    vi.mocked(l2.get).mockResolvedValue(undefined);
+
+    expect(a.isAvailable()).toBe(false);
+    expect(await a.get('k')).toBe(1);
+    expect(await a.get('other')).toBeUndefined();
+  });
+
+  it('logs failed broadcasts and still evicts locally', async () => {
+    const {
+      l2,
+      pubsub,
+      replicas: [a],
+    } = createReplicas(1);
+    vi.spyOn(pubsub, 'publish').mockRejectedValue(new Error('offline'));
+    await a.set('k', 1, 60000);
+
+    await a.del('k');
+
+    expect(a.size()).toBe(0);
+    expect(await l2.get('k')).toBeUndefined();
+    expect(silent.warn).toHaveBeenCalledWith(
+      'TieredCache publish error (peers keep L1 until l1TtlMs):',
+      expect.any(Error)
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { randomUUID } from 'crypto';
+import { Cache, CacheEntryInput } from './types';
+import { MemoryLRU, type MemoryLRUConfig } from './memory';
+import type { CircuitBreakerStatus } from './circuit-breaker';
+import type { PubSub } from '../pubsub/types';
+import type { Logger } from '../logger';
+import { consoleLogger } from '../logger';
+
+/**
+ * Eviction broadcast between TieredCache instances
+ */
+export type TieredCacheMessage =
+  | { origin: string; op: 'del'; keys: string[] }
+  | { origin: string; op: 'clear' };
+
+export interface TieredCacheConfig<V> {
+  l2: Cache<V>; // Shared cache (e.g. RedisCache)
+  l1?: MemoryLRU<V> | MemoryLRUConfig<V>; // Default: new MemoryLRU({ maxItems: 1000 })
+  l1TtlMs?: number; // Default: 30,000 (caps L1 lifetime; bounds staleness if a broadcast is lost)
+  pubsub?: PubSub<TieredCacheMessage>; // Eviction fan-out; without it only this process's L1 is kept in sync
+  logger?: Logger; // Default: consoleLogger
+}
+
+/**
+ * In-process L1 over a shared L2
+ *
+ * Reads check L1 first and fill it from L2 on an L1 miss. Writes go to both.
+ * Deletes and clears are applied to both tiers, then broadcast so every other
+ * instance drops its L1 copy.
+ */
+export class TieredCache<V> implements Cache<V> {
+  private readonly l1: MemoryLRU<V>;
+  private readonly l2: Cache<V>;
+  private readonly l1TtlMs: number;
+  private readonly pubsub?: PubSub<TieredCacheMessage>;
+  private readonly logger: Logger;
+  private readonly origin = randomUUID();
+  private readonly subscription?: Promise<(() => Promise<void>) | undefined>;
+  // Bumped on every local or remote eviction; an L2 read that overlaps one
+  // doesn't fill L1, so a stale value can't be re-cached after its broadcast
+  private generation = 0;
+
+  keys?: () => Promise<string[]>;
+
+  constructor(config: TieredCacheConfig<V>) {
+    this.l1 =
+      config.l1 instanceof MemoryLRU ? config.l1 : new MemoryLRU({ maxItems: 1000, ...config.l1 });
+    this.l2 = config.l2;
+    // List keys only when L2 can (e.g. FileCache), so withORM still restores
+    // persisted entries through the L1
+    const keys = this.l2.keys;
+    if (keys) this.keys = () => keys.call(this.l2);
+    this.l1TtlMs = config.l1TtlMs ?? 30000;
+    this.pubsub = config.pubsub;
+    this.logger = config.logger ?? consoleLogger;
+
+    this.subscription = this.pubsub
+      ?.subscribe((message) => this.onMessage(message))
+      .catch((error) => {
+        this.logger.warn('TieredCache subscribe error:', error);
+        return undefined;
+      });
+  }
+
+  async get(key: string): Promise<V | undefined> {
+    const local = await this.l1.get(key);
+    if (local !== undefined) {
+      return local;
+    }
+
+    const generation = this.generation;
+    const value = await this.l2.get(key);
+    if (value !== undefined && generation === this.generation) {
+      await this.l1.set(key, value, this.l1TtlMs);
+    }
+    return value;
+  }
+
+  async set(key: string, value: V, ttlMs: number): Promise<void> {
+    await this.l2.set(key, value, ttlMs);
+    await this.l1.set(key, value, this.l1Ttl(ttlMs));
+  }
+
+  async del(key: string): Promise<void> {
+    await this.delMany([key]);
+  }
+
+  async getMany(keys: string[]): Promise<(V | undefined)[]> {
+    const values = await this.l1.getMany(keys);
+    const missing = keys.filter((_, i) => values[i] === undefined);
+    if (missing.length === 0) {
+      return values;
+    }
+
+    const generation = this.generation;
+    const fetched = this.l2.getMany
+      ? await this.l2.getMany(missing)
+      : await Promise.all(missing.map((key) => this.l2.get(key)));
+
+    const fill: CacheEntryInput<V>[] = [];
+    let next = 0;
+    const result = values.map((value, i) => {
+      if (value !== undefined) return value;
+      const remote = fetched[next++];
+      if (remote !== undefined) fill.push({ key: keys[i], value: remote, ttlMs: this.l1TtlMs });
+      return remote;
+    });
+
+    if (generation === this.generation) {
+      await this.l1.setMany(fill);
+    }
+    return result;
+  }
+
+  async setMany(entries: CacheEntryInput<V>[]): Promise<void> {
+    if (this.l2.setMany) {
+      await this.l2.setMany(entries);
+    } else {
+      await Promise.all(entries.map(({ key, value, ttlMs }) => this.l2.set(key, value, ttlMs)));
+    }
+    await this.l1.setMany(entries.map((entry) => ({ ...entry, ttlMs: this.l1Ttl(entry.ttlMs) })));
+  }
+
+  async delMany(keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+
+    this.generation++;
+    await this.l1.delMany(keys);
+    if (this.l2.delMany) {
+      await this.l2.delMany(keys);
+    } else {
+      await Promise.all(keys.map((key) => this.l2.del(key)));
+    }
+
+    // Broadcast after L2 is updated, so peers refilling L1 read the new state
+    await this.broadcast({ origin: this.origin, op: 'del', keys });
+  }
+
+  /**
+   * Clear both tiers on this instance and L1 on every other instance
+   */
+  async clear(): Promise<void> {
+    this.generation++;
+    await this.l1.clear();
+    await this.l2.clear?.();
+    await this.broadcast({ origin: this.origin, op: 'clear' });
+  }
+
+  /**
+   * Number of entries in this instance's L1
+   */
+  size(): number {
+    return this.l1.size();
+  }
+
+  /**
+   * Availability of L2, e.g. false while its circuit is open
+   * L1 hits are still served meanwhile, so callers should skip fills, not reads.
+   */
+  isAvailable(): boolean {
+    return this.l2.isAvailable?.() ?? true;
+  }
+
+  /**
+   * Breaker state of L2, e.g. a CircuitBreakerCache over Redis
+   */
+  status(): CircuitBreakerStatus | undefined {
+    return this.l2.status?.();
+  }
+
+  /**
+   * Stop listening for broadcasts and release L1
+   */
+  async destroy(): Promise<void> {
+    const unsubscribe = await this.subscription;
+    await unsubscribe?.();
+    this.l1.destroy();
+  }
+
+  private async broadcast(message: TieredCacheMessage): Promise<void> {
+    if (!this.pubsub) {
+      return;
+    }
+
+    try {
+      await this.pubsub.publish(message);
+    } catch (error) {
+      this.logger.warn('TieredCache publish error (peers keep L1 until l1TtlMs):', error);
+    }
+  }
+
+  private async onMessage(message: TieredCacheMessage): Promise<void> {
+    if (message.origin === this.origin) {
+      return;
+    }
+
+    this.generation++;
+    if (message.op === 'clear') {
+      await this.l1.clear();
+    } else {
+      await this.l1.delMany(message.keys);
+    }
+  }
+
+  private l1Ttl(ttlMs: number): number {
+    return ttlMs > 0 ? Math.min(ttlMs, this.l1TtlMs) : this.l1TtlMs;
+  }
+}
@@ -1,10 +1,31 @@
+import type { Statement } from '../types';
+import type { CircuitBreakerStatus } from './circuit-breaker';
+
 /**
  * Common cache interface
+ * Batch methods are optional; callers fall back to the single-key methods
  */
 export interface Cache<V> {
   get(key: string): Promise<V | undefined>;
   set(key: string, value: V, ttlMs: number): Promise<void>;
   del(key: string): Promise<void>;
+  getMany?(keys: string[]): Promise<(V | undefined)[]>; // Same order as keys
+  setMany?(entries: CacheEntryInput<V>[]): Promise<void>;
+  delMany?(keys: string[]): Promise<void>;
+  clear?(): Promise<void>;
+  size?(): number;
+  isAvailable?(): boolean; // False while the backend is known to be down; callers may skip fills
+  keys?(): Promise<string[]>; // Live keys, for persistent caches whose entries outlive the process
+  status?(): CircuitBreakerStatus | undefined; // Breaker state of this cache or one it wraps
+}
+
+/**
+ * One entry for Cache.setMany
+ */
+export interface CacheEntryInput<V> {
+  key: string;
+  value: V;
+  ttlMs: number;
 }
 
 /**
@@ -12,5 +33,7 @@ export interface Cache<V> {
  */
 export interface CacheValue {
   result: any;
+  freshUntil?: number; // Epoch ms; after this the entry is stale (stale-while-revalidate)
+  shape?: Statement; // Query that produced the result; lets a new process re-register the entry
   // DO NOT store dependencies - engine tracks them
 }
@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import { assertEngineCompatible, satisfiesRange } from './compatibility';
+import type { Engine } from './types';
+
+// [range, version, expected]
+const cases: Array<[string, string, boolean]> = [
+  // Exact and comparators
+  ['1.2.3', '1.2.3', true],
+  ['=1.2.3', '1.2.4', false],
+  ['v1.2.3', '1.2.3', true],
+  ['>1.2.3', '1.2.4', true],
+  ['>1.2.3', '1.2.3', false],
+  ['>=1.2.3', '1.2.3', true],
+  ['<1.2.3', '1.2.2', true],
+  ['<1.2.3', '1.2.3', false],
+  ['<=1.2.3', '1.2.3', true],
+  ['> 1.2.3', '1.3.0', true],
+
+  // X-ranges and partial versions
+  ['*', '3.4.5', true],
+  ['', '3.4.5', true],
+  ['1.x', '1.9.9', true],
+  ['1.x', '2.0.0', false],
+  ['1', '1.5.0', true],
+  ['1.2', '1.2.9', true],
+  ['1.2.x', '1.3.0', false],
+  ['>1.x', '1.5.0', false],
+  ['>1.x', '2.0.0', true],
+  ['>1.2', '1.2.9', false],
+  ['>1.2', '1.3.0', true],
+  ['>=1.x', '1.0.0', true],
+  ['<1.x', '0.9.9', true],
+  ['<1.x', '1.0.0', false],
+  ['<=1.x', '1.9.0', true],
+  ['<=1.x', '2.0.0', false],
+  ['<=1.2', '1.2.9', true],
+  ['<*', '0.0.0', false],
+  ['1.x.3', '1.0.0', true], // Parts after a wildcard are wildcards too
+
+  // Caret
+  ['^1.0', '1.9.9', true],
+  ['^1.0', '2.0.0', false],
+  ['^1.0', '0.9.0', false],
+  ['^1.2.3', '1.2.2', false],
+  ['^0.2.3', '0.2.9', true],
+  ['^0.2.3', '0.3.0', false],
+  ['^0.0.3', '0.0.3', true],
+  ['^0.0.3', '0.0.4', false],
+  ['^0.0', '0.0.9', true],
+  ['^0.0', '0.1.0', false],
+  ['^0.x', '0.9.0', true],
+  ['^0.x', '1.0.0', false],
+
+  // Tilde
+  ['~1.2.3', '1.2.9', true],
+  ['~1.2.3', '1.3.0', false],
+  ['~1.2', '1.2.0', true],
+  ['~1', '1.9.0', true],
+  ['~1', '2.0.0', false],
+
+  // Hyphen ranges
+  ['1.0.0 - 2.0.0', '1.0.0', true],
+  ['1.0.0 - 2.0.0', '2.0.0', true],
+  ['1.0.0 - 2.0.0', '2.0.1', false],
+  ['1 - 2', '2.9.9', true],
+  ['1.2 - 2.3', '2.3.9', true],
+  ['1.2 - 2.3', '2.4.0', false],
+
+  // Intersections and unions
+  ['>=1.0 <3', '2.9.9', true],
+  ['>=1.0 <3', '3.0.0', false],
+  ['^1.0 || ^2.0', '2.5.0', true],
+  ['^1.0 || ^2.0', '3.0.0', false],
+  ['1.0 || 2.x', '2.1.0', true],
+
+  // Prereleases only match ranges naming one on the same version
+  ['^1.0', '1.0.0-beta', false],
+  ['*', '1.0.0-beta', false],
+  ['>=1.0.0-alpha', '1.0.0-beta', true],
+  ['>=1.0.0-alpha', '1.0.1-beta', false],
+  ['^1.0.0-beta.2', '1.0.0-beta.10', true],
+  ['^1.0.0-beta.2', '1.0.0-beta.1', false],
+  ['^1.0.0-beta', '1.0.0', true],
+  ['<1.0.0', '1.0.0-rc.1', false],
+  ['1.0.0-rc.1', '1.0.0-rc.1', true],
+  ['1.0.0', '1.0.0+build.5', true],
+
+  // Invalid ranges match nothing
+  ['1..3', '1.0.3', false],
+  ['^', '1.0.0', false],
+  ['abc', '1.0.0', false],
+  ['^1.0 || abc', '1.0.0', false],
+];
+
+describe('satisfiesRange', () => {
+  it.each(cases)('%j matches %s: %s', (range, version, expected) => {
+    expect(satisfiesRange(version, range)).toBe(expected);
+  });
+
+  it('reads missing minor and patch numbers of a version as 0', () => {
+    expect(satisfiesRange('1', '^1.0')).toBe(true);
+    expect(satisfiesRange('1.2', '~1.2.0')).toBe(true);
+  });
+
+  it('rejects versions it cannot parse', () => {
+    expect(satisfiesRange('1.x', '*')).toBe(false);
+    expect(satisfiesRange('one', '*')).toBe(false);
+  });
+});
+
+describe('assertEngineCompatible', () => {
+  const engine = (abi: string, contract: string) =>
+    ({ version: vi.fn(async () => ({ core: '1.4.0', abi, contract })) }) as unknown as Engine;
+
+  it('returns the version of a supported engine', async () => {
+    await expect(assertEngineCompatible(engine('1.2.0', '1.0.0'))).resolves.toEqual({
+      core: '1.4.0',
+      abi: '1.2.0',
+      contract: '1.0.0',
+    });
+  });
+
+  it('throws ABI_MISMATCH and CONTRACT_VERSION_MISMATCH', async () => {
+    await expect(assertEngineCompatible(engine('2.0.0', '1.0.0'))).rejects.toMatchObject({
+      code: 'ABI_MISMATCH',
+      details: { component: 'abi', actual: '2.0.0', supported: '^1.0' },
+    });
+    await expect(assertEngineCompatible(engine('1.0.0', '0.9.0'))).rejects.toMatchObject({
+      code: 'CONTRACT_VERSION_MISMATCH',
+    });
+  });
+
+  it('applies range overrides', async () => {
+    await expect(
+      assertEngineCompatible(engine('2.0.0', '1.0.0'), { abi: '^1.0 || ^2.0' })
+    ).resolves.toBeDefined();
+  });
+});
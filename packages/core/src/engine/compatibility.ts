@@ -0,0 +1,288 @@
+import { EngineStatus, type Engine } from './types';
+import { EngineError } from '../errors';
+
+/**
+ * Version ranges an engine must satisfy
+ * Ranges use semver syntax: "^1.0", "~1.2", ">=1.0 <3", "1.x", "1.0 - 2.0", "1.0 || 2.x", "*"
+ */
+export interface EngineCompatibility {
+  abi?: string;
+  contract?: string;
+}
+
+/**
+ * Engine ABI and contract versions this SDK release works with
+ */
+export const SUPPORTED_ENGINE_VERSIONS: Required<EngineCompatibility> = {
+  abi: '^1.0',
+  contract: '^1.0',
+};
+
+/**
+ * Check engine ABI and contract versions against supported ranges
+ *
+ * @param engine - Engine to check
+ * @param ranges - Overrides for SUPPORTED_ENGINE_VERSIONS
+ * @returns The engine's version info
+ * @throws EngineError with code ABI_MISMATCH or CONTRACT_VERSION_MISMATCH
+ */
+export async function assertEngineCompatible(
+  engine: Engine,
+  ranges: EngineCompatibility = {}
+): Promise<{ core: string; contract: string; abi: string }> {
+  const supported = { ...SUPPORTED_ENGINE_VERSIONS, ...ranges };
+  const version = await engine.version();
+
+  if (!satisfiesRange(version.abi, supported.abi)) {
+    throw new EngineError(
+      'ABI_MISMATCH',
+      EngineStatus.ABI_MISMATCH,
+      `Engine ABI ${version.abi} (core ${version.core}) is not supported; ` +
+        `expected ${supported.abi}. Install a core.wasm built for this SDK, or allow it with ` +
+        `loadEngine(source, { compatibility: { abi: '${version.abi}' } }).`,
+      {
+        details: {
+          component: 'abi',
+          actual: version.abi,
+          supported: supported.abi,
+          core: version.core,
+        },
+      }
+    );
+  }
+
+  if (!satisfiesRange(version.contract, supported.contract)) {
+    throw new EngineError(
+      'CONTRACT_VERSION_MISMATCH',
+      EngineStatus.CONTRACT_VERSION_MISMATCH,
+      `Engine contract ${version.contract} (core ${version.core}) is not supported; ` +
+        `expected ${supported.contract}. Install a core.wasm built for this SDK, or allow it with ` +
+        `loadEngine(source, { compatibility: { contract: '${version.contract}' } }).`,
+      {
+        details: {
+          component: 'contract',
+          actual: version.contract,
+          supported: supported.contract,
+          core: version.core,
+        },
+      }
+    );
+  }
+
+  return version;
+}
+
+/**
+ * Test a version against a semver range
+ *
+ * Follows node-semver: comparators (=, >, >=, <, <=), X-ranges and partial
+ * versions ("1.x", "1.2", "*"), tilde and caret ranges, hyphen ranges
+ * ("1.0.0 - 2.0.0"), space-separated intersections and "||" unions. A
+ * prerelease version only matches a set with a comparator on the same
+ * major.minor.patch that has a prerelease itself. Invalid ranges match nothing.
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) return false;
+
+  const sets: Comparator[][] = [];
+  for (const set of range.split('||')) {
+    const comparators = parseSet(set);
+    if (!comparators) return false;
+    sets.push(comparators);
+  }
+
+  // Like node-semver, a "*" set stands for the whole range
+  const any = sets.find((set) => set.length === 0);
+  return (any ? [any] : sets).some((set) => satisfiesSet(parsed, set));
+}
+
+interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>;
+}
+
+interface Comparator {
+  op: '>' | '>=' | '<' | '<=' | '=';
+  version: Version;
+}
+
+// A range component: numbers, with undefined for missing or x/X/* parts
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: Array<string | number>;
+}
+
+const IDENTIFIER = '[0-9A-Za-z-]+';
+const PARTIAL = new RegExp(
+  `^v?(\\d+|[xX*])(?:\\.(\\d+|[xX*])(?:\\.(\\d+|[xX*])(?:-(${IDENTIFIER}(?:\\.${IDENTIFIER})*))?(?:\\+${IDENTIFIER}(?:\\.${IDENTIFIER})*)?)?)?$`
+);
+
+/**
+ * Parse a version; missing minor and patch numbers are 0 ("1" is 1.0.0)
+ */
+function parseVersion(version: string): Version | undefined {
+  const text = version.trim();
+  const partial = /[xX*]/.test(text.split(/[-+]/)[0]) ? undefined : parsePartial(text);
+  if (!partial || partial.major === undefined) return undefined;
+  return {
+    major: partial.major,
+    minor: partial.minor ?? 0,
+    patch: partial.patch ?? 0,
+    prerelease: partial.prerelease,
+  };
+}
+
+function parsePartial(text: string): PartialVersion | undefined {
+  const match = PARTIAL.exec(text);
+  if (!match) return undefined;
+
+  const number = (part: string | undefined) =>
+    part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part);
+  // Parts after a wildcard are wildcards too ("1.x.3" is "1.x")
+  const major = number(match[1]);
+  const minor = major === undefined ? undefined : number(match[2]);
+  const patch = minor === undefined ? undefined : number(match[3]);
+  const prerelease = match[4]
+    ? match[4].split('.').map((id) => (/^\d+$/.test(id) ? Number(id) : id))
+    : [];
+  return { major, minor, patch, prerelease };
+}
+
+/**
+ * Desugar one space-separated comparator set into primitive comparators
+ */
+function parseSet(set: string): Comparator[] | undefined {
+  const hyphen = /^\s*(\S+)\s+-\s+(\S+)\s*$/.exec(set);
+  if (hyphen) {
+    const from = parsePartial(hyphen[1]);
+    const to = parsePartial(hyphen[2]);
+    if (!from || !to) return undefined;
+    return [...desugar('>=', from), ...desugar('<=', to)];
+  }
+
+  const comparators: Comparator[] = [];
+  // Operators may be separated from their version ("> 1.2")
+  const tokens = set
+    .trim()
+    .replace(/(\^|~|[<>]=?|=)\s+/g, '$1')
+    .split(/\s+/);
+  for (const token of tokens) {
+    if (token === '') continue;
+    const match = /^(\^|~|[<>]=?|=)?(.+)$/.exec(token)!;
+    const partial = parsePartial(match[2]);
+    if (!partial) return undefined;
+    comparators.push(...desugar(match[1] ?? '=', partial));
+  }
+  return comparators;
+}
+
+function desugar(op: string, p: PartialVersion): Comparator[] {
+  const v = (major: number, minor = 0, patch = 0, prerelease: Array<string | number> = []) => ({
+    major,
+    minor,
+    patch,
+    prerelease,
+  });
+  // Upper bounds exclude the next version's prereleases too
+  const below = (major: number, minor = 0, patch = 0): Comparator => ({
+    op: '<',
+    version: v(major, minor, patch, [0]),
+  });
+  const { major, minor, patch, prerelease } = p;
+
+  if (major === undefined) {
+    // "*" matches anything; "<*" and ">*" match nothing
+    return op === '<' || op === '>' ? [below(0)] : [];
+  }
+  const lower = v(major, minor ?? 0, patch ?? 0, prerelease);
+
+  switch (op) {
+    case '^':
+      if (major > 0 || minor === undefined) return [{ op: '>=', version: lower }, below(major + 1)];
+      if (minor > 0 || patch === undefined) {
+        return [{ op: '>=', version: lower }, below(0, minor + 1)];
+      }
+      return [{ op: '>=', version: lower }, below(0, 0, patch + 1)];
+    case '~':
+      return minor === undefined
+        ? [{ op: '>=', version: lower }, below(major + 1)]
+        : [{ op: '>=', version: lower }, below(major, minor + 1)];
+    case '>':
+      if (minor === undefined) return [{ op: '>=', version: v(major + 1) }];
+      if (patch === undefined) return [{ op: '>=', version: v(major, minor + 1) }];
+      return [{ op: '>', version: lower }];
+    case '>=':
+      // ">=0.0.0" is "*"
+      return compareVersions(lower, v(0)) === 0 ? [] : [{ op: '>=', version: lower }];
+    case '<':
+      return [patch === undefined ? below(major, minor ?? 0) : { op: '<', version: lower }];
+    case '<=':
+      if (minor === undefined) return [below(major + 1)];
+      if (patch === undefined) return [below(major, minor + 1)];
+      return [{ op: '<=', version: lower }];
+    default:
+      // "1.2.3" is exact; "1" and "1.2" pin only the given components
+      if (minor === undefined) return [{ op: '>=', version: lower }, below(major + 1)];
+      if (patch === undefined) return [{ op: '>=', version: lower }, below(major, minor + 1)];
+      return [{ op: '=', version: lower }];
+  }
+}
+
+function satisfiesSet(version: Version, comparators: Comparator[]): boolean {
+  if (!comparators.every((c) => test(version, c))) return false;
+  if (version.prerelease.length === 0) return true;
+
+  // Prereleases only match when the range names one on the same version
+  return comparators.some(
+    ({ version: bound }) =>
+      bound.prerelease.length > 0 &&
+      bound.major === version.major &&
+      bound.minor === version.minor &&
+      bound.patch === version.patch
+  );
+}
+
+function test(version: Version, { op, version: bound }: Comparator): boolean {
+  const cmp = compareVersions(version, bound);
+  switch (op) {
+    case '>':
+      return cmp > 0;
+    case '>=':
+      return cmp >= 0;
+    case '<':
+      return cmp < 0;
+    case '<=':
+      return cmp <= 0;
+    default:
+      return cmp === 0;
+  }
+}
+
+/**
+ * Semver precedence: numbers, then prerelease (a release ranks higher)
+ */
+function compareVersions(a: Version, b: Version): number {
+  const main =
+    Math.sign(a.major - b.major) || Math.sign(a.minor - b.minor) || Math.sign(a.patch - b.patch);
+  if (main !== 0) return main;
+
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return Math.sign(b.prerelease.length - a.prerelease.length);
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const [x, y] = [a.prerelease[i], b.prerelease[i]];
+    if (x === y) continue;
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    if (typeof x === 'number' && typeof y === 'number') return x < y ? -1 : 1;
+    if (typeof x === 'number') return -1; // Numeric identifiers rank lower
+    if (typeof y === 'number') return 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+}
@@ -1,261 +1,206 @@
 import { readFile } from 'fs/promises';
-import { Engine, EngineStatus, statusToErrorCode, type EngineError } from './types';
-import type { AppSchema, Statement, Mutation, Dependencies } from '../types';
+import type { Engine } from './types';
+import { instantiateEngine } from './wasm-engine';
+import { WorkerEngine, type WorkerEngineOptions } from './worker-engine';
+import { assertEngineCompatible, type EngineCompatibility } from './compatibility';
+import { WasmLoadError } from '../errors';
 
 /**
- * WASM exports interface
+ * Where to load the WASM binary from
+ * - string: filesystem path
+ * - URL: file: URLs are read from disk, other schemes are fetched
+ * - ArrayBuffer / Uint8Array: raw bytes
+ * - Response: compiled with WebAssembly.compileStreaming
+ * - WebAssembly.Module: already compiled
+ * - function: fetcher returning the bytes
  */
-interface WASMExports {
-  memory: WebAssembly.Memory;
-  ik_version: () => number;
-  ik_set_schema: (ptr: number, len: number) => number;
-  ik_compute_shape_id: (ptr: number, len: number) => number;
-  ik_add_query: (ptr: number, len: number) => number;
-  ik_invalidate: (ptr: number, len: number) => number;
-  ik_explain_invalidation: (ptr: number, len: number) => number;
-  ik_reset: () => number;
-  ik_health: () => number;
-  ik_metrics: () => number;
-  ik_audit_log: () => number;
-  ik_malloc: (size: number) => number;
-  ik_free: (ptr: number, size: number) => void;
-  ik_take_result: (outPtr: number, outLen: number) => void;
-  ik_last_error: (outPtr: number, outLen: number) => void;
+export type EngineSource = BinarySource | WebAssembly.Module;
+
+type BinarySource = string | URL | ArrayBuffer | Uint8Array | Response | (() => Promise<ArrayBuffer>);
+
+export interface LoadEngineOptions {
+  /**
+   * Host the WASM instance in a worker thread so engine calls don't block
+   * the main event loop. Pass options to tune restart behavior.
+   */
+  worker?: boolean | WorkerEngineOptions;
+
+  /**
+   * Compatible engine version ranges, overriding SUPPORTED_ENGINE_VERSIONS
+   * (e.g. { abi: '^1.0 || ^2.0' }). Pass false to skip the check.
+   */
+  compatibility?: EngineCompatibility | false;
 }
 
 /**
- * WASM Engine implementation
+ * Binary shipped inside @includekit/core (resolved from dist/engine/)
  */
-class WASMEngine implements Engine {
-  private readonly exports: WASMExports;
-  private readonly memory: WebAssembly.Memory;
-  private readonly textEncoder: TextEncoder;
-  private readonly textDecoder: TextDecoder;
+const BUNDLED_WASM = new URL('../../core.wasm', import.meta.url);
 
-  constructor(instance: WebAssembly.Instance) {
-    this.exports = instance.exports as unknown as WASMExports;
-    this.memory = this.exports.memory;
-    this.textEncoder = new TextEncoder();
-    this.textDecoder = new TextDecoder();
-  }
+/**
+ * Compiled modules, so several engines in one process compile once
+ * Paths/URLs are keyed by string; bytes and fetchers by identity
+ */
+const compiledByKey = new Map<string, Promise<WebAssembly.Module>>();
+const compiledBySource = new WeakMap<object, Promise<WebAssembly.Module>>();
 
-  async version(): Promise<{ core: string; contract: string; abi: string }> {
-    const status = this.exports.ik_version();
-    if (status !== EngineStatus.OK) {
-      throw this.getError(status);
-    }
-    return this.getResult();
-  }
+/**
+ * Load and initialize the WASM engine
+ *
+ * @param source - WASM source (defaults to the binary bundled with this package)
+ * @param options - Load options (e.g. worker mode)
+ * @returns Engine instance
+ */
+export async function loadEngine(
+  source: EngineSource = BUNDLED_WASM,
+  options: LoadEngineOptions = {}
+): Promise<Engine> {
+  const module = await compileEngine(source);
 
-  async setSchema(schema: AppSchema): Promise<void> {
-    const status = this.callWithJSON('ik_set_schema', schema);
-    if (status !== EngineStatus.OK) {
-      throw this.getError(status);
+  if (options.worker) {
+    const engine = await WorkerEngine.start(
+      module,
+      options.worker === true ? {} : options.worker
+    );
+    try {
+      await checkCompatibility(engine, options);
+    } catch (error) {
+      await engine.close();
+      throw error;
     }
+    return engine;
   }
 
-  async computeShapeId(statement: Statement): Promise<{ shapeId: string }> {
-    const status = this.callWithJSON('ik_compute_shape_id', statement);
-    if (status !== EngineStatus.OK) {
-      throw this.getError(status);
-    }
-    return this.getResult();
-  }
+  const engine = await instantiateEngine(module);
+  await checkCompatibility(engine, options);
+  return engine;
+}
 
-  async addQuery(input: {
-    shape: Statement;
-    resultHint?: Record<string, any[]>;
-  }): Promise<{ shapeId: string; dependencies: Dependencies }> {
-    const status = this.callWithJSON('ik_add_query', input);
-    if (status !== EngineStatus.OK) {
-      throw this.getError(status);
-    }
-    return this.getResult();
+/**
+ * Fail fast on a mismatched engine instead of on some later call
+ */
+async function checkCompatibility(engine: Engine, options: LoadEngineOptions): Promise<void> {
+  if (options.compatibility !== false) {
+    await assertEngineCompatible(engine, options.compatibility);
   }
+}
 
-  async invalidate(mutation: Mutation): Promise<{ evict: string[] }> {
-    const status = this.callWithJSON('ik_invalidate', mutation);
-    if (status !== EngineStatus.OK) {
-      throw this.getError(status);
-    }
-    return this.getResult();
+/**
+ * Compile a WASM source, reusing a previously compiled module when possible
+ */
+export function compileEngine(source: EngineSource): Promise<WebAssembly.Module> {
+  if (source instanceof WebAssembly.Module) {
+    return Promise.resolve(source);
   }
 
-  async explainInvalidation(input: {
-    mutation: Mutation;
-    shapeId: string;
-  }): Promise<{ invalidate: boolean; reasons: string[] }> {
-    const status = this.callWithJSON('ik_explain_invalidation', input);
-    if (status !== EngineStatus.OK) {
-      throw this.getError(status);
-    }
-    return this.getResult();
+  const key = cacheKey(source);
+  const cached = key !== undefined ? compiledByKey.get(key) : compiledBySource.get(source as object);
+  if (cached) {
+    return cached;
   }
 
-  async reset(): Promise<void> {
-    const status = this.exports.ik_reset();
-    if (status !== EngineStatus.OK) {
-      throw this.getError(status);
-    }
+  const promise = compileUncached(source as BinarySource);
+  if (key !== undefined) {
+    compiledByKey.set(key, promise);
+  } else {
+    compiledBySource.set(source as object, promise);
   }
 
-  /**
-   * Call a WASM function with JSON input
-   */
-  private callWithJSON(funcName: keyof WASMExports, input: any): number {
-    let json: string;
-    try {
-      json = JSON.stringify(input);
-      if (json.includes('\0')) {
-        throw new Error('Input contains NULL bytes');
-      }
-    } catch (error: any) {
-      throw new Error(`Failed to serialize input: ${error.message}`);
-    }
-    
-    const bytes = this.textEncoder.encode(json);
-    const len = bytes.length;
-
-    // Allocate memory
-    const ptr = this.exports.ik_malloc(len);
-    if (ptr === 0) {
-      throw new Error('WASM memory allocation failed');
+  // Don't keep failures around; a later call may succeed
+  promise.catch(() => {
+    if (key !== undefined) {
+      compiledByKey.delete(key);
+    } else {
+      compiledBySource.delete(source as object);
     }
+  });
 
-    try {
-      // Get fresh buffer reference in case memory grew
-      const buffer = this.memory.buffer;
-      const memoryView = new Uint8Array(buffer, ptr, len);
-      memoryView.set(bytes);
-
-      // Call function
-      const func = this.exports[funcName] as (ptr: number, len: number) => number;
-      const status = func(ptr, len);
-
-      return status;
-    } finally {
-      // Free memory
-      this.exports.ik_free(ptr, len);
-    }
-  }
-
-  /**
-   * Get result from WASM after successful call
-   */
-  private getResult<T = any>(): T {
-    // ik_take_result writes ptr and len to memory[0:8]
-    // Always get fresh buffer reference in case memory grew
-    let buffer = this.memory.buffer;
-    const ptrArray = new Uint32Array(buffer, 0, 1);
-    const lenArray = new Uint32Array(buffer, 4, 1);
-
-    this.exports.ik_take_result(0, 4);
-
-    const ptr = ptrArray[0];
-    const len = lenArray[0];
+  return promise;
+}
 
-    // Get fresh buffer again after WASM call
-    buffer = this.memory.buffer;
-    const view = new Uint8Array(buffer, ptr, len);
-    const json = this.textDecoder.decode(view);
+function cacheKey(source: EngineSource): string | undefined {
+  if (typeof source === 'string') return `path:${source}`;
+  if (source instanceof URL) return `url:${source.href}`;
+  if (isResponse(source) && source.url) return `url:${source.url}`;
+  return undefined;
+}
 
-    return JSON.parse(json);
+async function compileUncached(
+  source: BinarySource
+): Promise<WebAssembly.Module> {
+  if (isResponse(source)) {
+    return compileResponse(source);
   }
 
-  /**
-   * Get error from WASM after failed call
-   */
-  private getError(status: number): Error {
+  if (source instanceof URL && source.protocol !== 'file:') {
+    let response: Response;
     try {
-      // ik_last_error writes ptr and len to memory[0:8]
-      // Always get fresh buffer reference in case memory grew
-      let buffer = this.memory.buffer;
-      const ptrArray = new Uint32Array(buffer, 0, 1);
-      const lenArray = new Uint32Array(buffer, 4, 1);
-
-      this.exports.ik_last_error(0, 4);
-
-      const ptr = ptrArray[0];
-      const len = lenArray[0];
-
-      // Get fresh buffer again after WASM call
-      buffer = this.memory.buffer;
-      const view = new Uint8Array(buffer, ptr, len);
-      const json = this.textDecoder.decode(view);
-      const error: EngineError = JSON.parse(json);
-
-      return new Error(`[${error.code}] ${error.message}`);
-    } catch {
-      // Fallback if error parsing fails
-      const code = statusToErrorCode(status);
-      return new Error(`[${code}] Engine error (status: ${status})`);
+      response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+    } catch (error: any) {
+      throw new WasmLoadError('WASM_READ_FAILED', `Failed to load WASM: ${error.message}`, {
+        cause: error,
+        details: { url: source.href },
+      });
     }
+    return compileResponse(response);
   }
+
+  return compileBytes(await readBytes(source));
 }
 
-/**
- * Load and initialize the WASM engine
- * 
- * @param pathOrFetcher - Path to WASM file or fetcher function
- * @returns Engine instance
- */
-export async function loadEngine(
-  pathOrFetcher: string | (() => Promise<ArrayBuffer>)
-): Promise<Engine> {
-  // Load WASM binary
-  let wasmBytes: ArrayBuffer;
+async function readBytes(
+  source: string | URL | ArrayBuffer | Uint8Array | (() => Promise<ArrayBuffer>)
+): Promise<ArrayBuffer | Uint8Array> {
+  if (source instanceof ArrayBuffer || source instanceof Uint8Array) {
+    return source;
+  }
 
-  if (typeof pathOrFetcher === 'string') {
-    try {
-      const buffer = await readFile(pathOrFetcher);
-      wasmBytes = buffer.buffer.slice(
-        buffer.byteOffset,
-        buffer.byteOffset + buffer.byteLength
-      );
-    } catch (error: any) {
-      throw new Error(`Failed to load WASM: File not found at ${pathOrFetcher}`);
-    }
-  } else {
+  if (typeof source === 'string' || source instanceof URL) {
+    const path = source instanceof URL ? source.href : source;
     try {
-      wasmBytes = await pathOrFetcher();
+      return await readFile(source);
     } catch (error: any) {
-      throw new Error(`Failed to load WASM: ${error.message}`);
+      throw new WasmLoadError(
+        'WASM_READ_FAILED',
+        `Failed to load WASM: File not found at ${path}`,
+        { cause: error, details: { path } }
+      );
     }
   }
 
-  // Instantiate WASM
-  let instance: WebAssembly.Instance;
   try {
-    const result = await WebAssembly.instantiate(wasmBytes);
-    instance = result.instance;
+    return await source();
   } catch (error: any) {
-    throw new Error(`Failed to instantiate WASM: ${error.message}`);
+    throw new WasmLoadError('WASM_READ_FAILED', `Failed to load WASM: ${error.message}`, {
+      cause: error,
+    });
   }
+}
 
-  // Validate required exports
-  const requiredExports = [
-    'ik_version',
-    'ik_set_schema',
-    'ik_compute_shape_id',
-    'ik_add_query',
-    'ik_invalidate',
-    'ik_explain_invalidation',
-    'ik_reset',
-    'ik_health',
-    'ik_metrics',
-    'ik_audit_log',
-    'ik_malloc',
-    'ik_free',
-    'ik_take_result',
-    'ik_last_error',
-    'memory',
-  ];
+async function compileBytes(bytes: ArrayBuffer | Uint8Array): Promise<WebAssembly.Module> {
+  try {
+    return await WebAssembly.compile(bytes as BufferSource);
+  } catch (error: any) {
+    throw new WasmLoadError('WASM_INSTANTIATE_FAILED', `Failed to compile WASM: ${error.message}`, {
+      cause: error,
+    });
+  }
+}
 
-  for (const exp of requiredExports) {
-    if (!(exp in instance.exports)) {
-      throw new Error(`Invalid WASM: Missing required export '${exp}'`);
-    }
+async function compileResponse(response: Response): Promise<WebAssembly.Module> {
+  // compileStreaming requires Content-Type: application/wasm; keep a copy
+  // of the body to fall back to a buffered compile
+  const fallback = response.clone();
+  try {
+    return await WebAssembly.compileStreaming(response);
+  } catch {
+    return compileBytes(await fallback.arrayBuffer());
   }
+}
 
-  return new WASMEngine(instance);
+function isResponse(source: unknown): source is Response {
+  return typeof Response !== 'undefined' && source instanceof Response;
 }
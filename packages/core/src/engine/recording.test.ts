@@ -0,0 +1,238 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RecordingEngine, replayRecording, type RecordedCall } from './recording';
+import { ReferenceEngine } from './reference';
+import { jsonSerializer } from '../cache/serializer';
+import type { AppSchema, Mutation, Statement } from '../types';
+import type { Engine } from './types';
+
+const silent = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+const schema: AppSchema = {
+  version: 1,
+  models: [{ name: 'Post', id: { kind: 'string' }, relations: [] }],
+} as AppSchema;
+
+const byId = (id: string): Statement =>
+  ({ model: 'Post', where: { conditions: [{ field: 'id', op: 'eq', value: id }] } }) as Statement;
+
+const update = (id: string): Mutation =>
+  ({ changes: [{ action: 'update', model: 'Post', id, sets: { title: 'x' } }] }) as Mutation;
+
+const dirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(dirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+/**
+ * ReferenceEngine recorded into an in-memory list of lines
+ */
+function record(inner: Engine = new ReferenceEngine()) {
+  const lines: string[] = [];
+  const engine = new RecordingEngine(inner, {
+    sink: (line) => void lines.push(line),
+    logger: silent,
+  });
+  const calls = async () => {
+    await engine.flush();
+    return lines.map((line) => jsonSerializer.deserialize(line) as RecordedCall);
+  };
+  return { engine, lines, calls };
+}
+
+const drafts = {
+  model: 'Post',
+  where: { conditions: [{ field: 'title', op: 'eq', value: 'draft' }] },
+} as Statement;
+
+/**
+ * Run a session that tracks a post and an empty list, then updates the post
+ * out of reach of the list
+ */
+async function session(engine: Engine) {
+  await engine.setSchema(schema);
+  const first = await engine.addQuery({ shape: byId('p1'), resultHint: { Post: [{ id: 'p1' }] } });
+  await engine.addQuery({ shape: drafts, resultHint: { Post: [] } });
+  const { evict } = await engine.invalidate(update('p1'));
+  return { shapeId: first.shapeId, evict };
+}
+
+describe('RecordingEngine', () => {
+  it('records each call with its result, in call order', async () => {
+    const { engine, calls } = record();
+    const { shapeId, evict } = await session(engine);
+
+    expect(evict).toEqual([shapeId]);
+    const recorded = await calls();
+    expect(recorded.map((call) => [call.seq, call.method])).toEqual([
+      [0, 'setSchema'],
+      [1, 'addQuery'],
+      [2, 'addQuery'],
+      [3, 'invalidate'],
+    ]);
+    expect(recorded[1].result.shapeId).toBe(shapeId);
+    expect(recorded[3]).toMatchObject({ args: [update('p1')], result: { evict: [shapeId] } });
+  });
+
+  it('records failed calls and rethrows', async () => {
+    const { engine, calls } = record();
+
+    await expect(engine.invalidate(update('p1'))).rejects.toMatchObject({ code: 'ENGINE_STATE' });
+    expect((await calls())[0]).toMatchObject({
+      method: 'invalidate',
+      error: { name: 'EngineError', code: 'ENGINE_STATE' },
+    });
+  });
+
+  it('snapshots arguments when called', async () => {
+    const { engine, calls } = record();
+    await engine.setSchema(schema);
+    const mutation = update('p1');
+
+    await engine.invalidate(mutation);
+    mutation.changes[0].id = 'p2';
+
+    expect((await calls())[1].args[0].changes[0].id).toBe('p1');
+  });
+
+  it('round-trips BigInt and Date arguments', async () => {
+    const { engine, calls } = record();
+    await engine.setSchema(schema);
+    const at = new Date('2024-01-01T00:00:00Z');
+    const mutation = {
+      changes: [{ action: 'update', model: 'Post', id: 'p1', sets: { views: 10n, at } }],
+    } as Mutation;
+
+    await expect(engine.invalidate(mutation)).resolves.toEqual({ evict: [] });
+    expect((await calls())[1].args[0].changes[0].sets).toEqual({ views: 10n, at });
+  });
+
+  it('forwards calls whose arguments cannot be recorded, and skips them on replay', async () => {
+    const { engine, calls } = record();
+    await engine.setSchema(schema);
+    const sets: Record<string, any> = {};
+    sets.self = sets;
+    const mutation = { changes: [{ action: 'update', model: 'Post', id: 'p1', sets }] } as Mutation;
+
+    await expect(engine.invalidate(mutation)).resolves.toEqual({ evict: [] });
+    const recorded = await calls();
+    expect(recorded[1]).toMatchObject({ method: 'invalidate', args: [] });
+    expect(recorded[1].argsError).toEqual(expect.any(String));
+
+    const report = await replayRecording(recorded, new ReferenceEngine());
+    expect(report).toMatchObject({ calls: 2, replayed: 1, divergences: [] });
+  });
+
+  it('logs sink failures without failing the call', async () => {
+    const warn = vi.fn();
+    const engine = new RecordingEngine(new ReferenceEngine(), {
+      sink: () => Promise.reject(new Error('disk full')),
+      logger: { ...silent, warn },
+    });
+
+    await engine.setSchema(schema);
+    await engine.flush();
+
+    expect(warn).toHaveBeenCalledWith('RecordingEngine sink error:', expect.any(Error));
+  });
+
+  it('offers diagnostics only when the wrapped engine has them', () => {
+    const reference = new ReferenceEngine();
+    const bare = { version: () => reference.version() } as unknown as Engine;
+
+    expect(record(reference).engine.health).toBeTypeOf('function');
+    expect(record(bare).engine.health).toBeUndefined();
+    expect(record(bare).engine.auditLog).toBeUndefined();
+  });
+});
+
+describe('replayRecording', () => {
+  it('reports no divergences when replayed into the same engine', async () => {
+    const { engine, lines } = record();
+    await session(engine);
+    await engine.explainInvalidation({ mutation: update('p2'), shapeId: 'missing' });
+    await engine.flush();
+
+    expect(await replayRecording(lines, new ReferenceEngine())).toEqual({
+      calls: 5,
+      replayed: 5,
+      shapeIdChanges: 0,
+      divergences: [],
+    });
+  });
+
+  it('reads JSONL files written by a path sink', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'includekit-recording-'));
+    dirs.push(dir);
+    const path = join(dir, 'engine.jsonl');
+    const engine = new RecordingEngine(new ReferenceEngine(), { sink: path, logger: silent });
+    await session(engine);
+    await engine.version(); // Recorded, not replayed
+    await engine.flush();
+
+    expect(await replayRecording(path, new ReferenceEngine())).toMatchObject({
+      calls: 5,
+      replayed: 4,
+      divergences: [],
+    });
+  });
+
+  it('translates shape IDs of engines that hash differently', async () => {
+    const { engine, lines } = record();
+    const { shapeId } = await session(engine);
+    await engine.explainInvalidation({ mutation: update('p1'), shapeId });
+    await engine.flush();
+
+    const replayed = new ReferenceEngine();
+    const addQuery = replayed.addQuery.bind(replayed);
+    vi.spyOn(replayed, 'addQuery').mockImplementation(async (input) => {
+      const tracked = await addQuery(input);
+      return { ...tracked, shapeId: `v2:${tracked.shapeId}` };
+    });
+    vi.spyOn(replayed, 'invalidate').mockImplementation(async () => ({
+      evict: [`v2:${shapeId}`],
+    }));
+    vi.spyOn(replayed, 'explainInvalidation').mockImplementation(async (input) => ({
+      invalidate: input.shapeId === `v2:${shapeId}`,
+      reasons: [],
+    }));
+
+    expect(await replayRecording(lines, replayed)).toMatchObject({
+      shapeIdChanges: 2,
+      divergences: [],
+    });
+  });
+
+  it('reports evictions and errors that differ from the recording', async () => {
+    const { engine, lines } = record();
+    const { shapeId } = await session(engine);
+    await engine.flush();
+
+    const replayed = new ReferenceEngine();
+    vi.spyOn(replayed, 'invalidate').mockResolvedValue({ evict: ['other'] });
+    vi.spyOn(replayed, 'addQuery').mockRejectedValueOnce(new Error('boom'));
+
+    const report = await replayRecording(lines, replayed);
+    expect(report.divergences).toEqual([
+      {
+        seq: 1,
+        method: 'addQuery',
+        kind: 'error',
+        expected: null,
+        actual: { name: 'Error', code: undefined, message: 'boom' },
+      },
+      {
+        seq: 3,
+        method: 'invalidate',
+        kind: 'evict',
+        expected: [shapeId],
+        actual: ['other'],
+        missing: [shapeId],
+        unexpected: ['other'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,348 @@
+import { appendFile, readFile } from 'fs/promises';
+import {
+  invalidateBatch,
+  type Engine,
+  type EngineHealth,
+  type EngineMetrics,
+  type AuditLogEntry,
+} from './types';
+import type { AppSchema, Statement, Mutation, Dependencies } from '../types';
+import type { Logger } from '../logger';
+import { consoleLogger } from '../logger';
+import { IncludeKitError } from '../errors';
+import { jsonSerializer } from '../cache/serializer';
+import type { EngineMethod } from './worker-protocol';
+
+/**
+ * One engine call as written to a recording (one JSON object per line)
+ * Lines are encoded with jsonSerializer, so BigInt, Date and other non-JSON
+ * values in arguments and results round-trip.
+ */
+export interface RecordedCall {
+  seq: number;
+  timestamp: number;
+  method: EngineMethod;
+  args: any[];
+  argsError?: string; // Arguments couldn't be recorded (args is empty); skipped on replay
+  result?: any;
+  error?: { name: string; code?: string; message: string };
+  durationMs: number;
+}
+
+/**
+ * Receives each JSONL line; may be async
+ */
+export type RecordingSink = (line: string) => void | Promise<void>;
+
+export interface RecordingEngineOptions {
+  sink: RecordingSink | string; // Sink function, or JSONL file path to append to
+  logger?: Logger; // Default: consoleLogger (sink failures are logged, never thrown)
+}
+
+/**
+ * Methods that change or depend on engine state and are fed back on replay
+ * Diagnostics (version, health, metrics, auditLog) are recorded but skipped
+ */
+const REPLAYED_METHODS: EngineMethod[] = [
+  'setSchema',
+  'computeShapeId',
+  'addQuery',
+  'invalidate',
+  'invalidateBatch',
+  'explainInvalidation',
+  'reset',
+];
+
+/**
+ * Engine decorator that records every call and its response as JSONL
+ *
+ * Attach recordings to bug reports, or keep them as regression fixtures and
+ * check them against new engine versions with replayRecording().
+ */
+export class RecordingEngine implements Engine {
+  private readonly sink: RecordingSink;
+  private readonly logger: Logger;
+  private seq = 0;
+  private writes: Promise<void> = Promise.resolve();
+
+  health?: () => Promise<EngineHealth>;
+  metrics?: () => Promise<EngineMetrics>;
+  auditLog?: () => Promise<AuditLogEntry[]>;
+
+  constructor(
+    private readonly inner: Engine,
+    options: RecordingEngineOptions
+  ) {
+    this.sink = typeof options.sink === 'string' ? fileSink(options.sink) : options.sink;
+    this.logger = options.logger ?? consoleLogger;
+
+    // Offer diagnostics only when the wrapped engine has them
+    const { health, metrics, auditLog } = inner;
+    if (health) this.health = () => this.record('health', [], () => health.call(inner));
+    if (metrics) this.metrics = () => this.record('metrics', [], () => metrics.call(inner));
+    if (auditLog) this.auditLog = () => this.record('auditLog', [], () => auditLog.call(inner));
+  }
+
+  async version(): Promise<{ core: string; contract: string; abi: string }> {
+    return this.record('version', [], () => this.inner.version());
+  }
+
+  async setSchema(schema: AppSchema): Promise<void> {
+    return this.record('setSchema', [schema], () => this.inner.setSchema(schema));
+  }
+
+  async computeShapeId(statement: Statement): Promise<{ shapeId: string }> {
+    return this.record('computeShapeId', [statement], () => this.inner.computeShapeId(statement));
+  }
+
+  async addQuery(input: {
+    shape: Statement;
+    resultHint?: Record<string, any[]>;
+  }): Promise<{ shapeId: string; dependencies: Dependencies }> {
+    return this.record('addQuery', [input], () => this.inner.addQuery(input));
+  }
+
+  async invalidate(mutation: Mutation): Promise<{ evict: string[] }> {
+    return this.record('invalidate', [mutation], () => this.inner.invalidate(mutation));
+  }
+
+  async invalidateBatch(mutations: Mutation[]): Promise<{ evict: string[] }> {
+    return this.record('invalidateBatch', [mutations], () =>
+      invalidateBatch(this.inner, mutations)
+    );
+  }
+
+  async explainInvalidation(input: {
+    mutation: Mutation;
+    shapeId: string;
+  }): Promise<{ invalidate: boolean; reasons: string[] }> {
+    return this.record('explainInvalidation', [input], () =>
+      this.inner.explainInvalidation(input)
+    );
+  }
+
+  async reset(): Promise<void> {
+    return this.record('reset', [], () => this.inner.reset());
+  }
+
+  onRestart(listener: (error: Error) => void): () => void {
+    return this.inner.onRestart?.(listener) ?? (() => {});
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close?.();
+  }
+
+  /**
+   * Wait until every recorded line has been handed to the sink
+   */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  private async record<T>(method: EngineMethod, args: any[], call: () => Promise<T>): Promise<T> {
+    const seq = this.seq++;
+    const timestamp = Date.now();
+    // Snapshot args now; callers may mutate them after the call. Recording
+    // must never break a call, so unserializable args are only noted.
+    let snapshot: { args: any[]; argsError?: string };
+    try {
+      snapshot = { args: jsonSerializer.deserialize(jsonSerializer.serialize(args)) as any[] };
+    } catch (error: any) {
+      snapshot = { args: [], argsError: String(error?.message ?? error) };
+    }
+    const start = performance.now();
+
+    try {
+      const result = await call();
+      this.write({ seq, timestamp, method, ...snapshot, result, durationMs: elapsed(start) });
+      return result;
+    } catch (error: any) {
+      this.write({
+        seq,
+        timestamp,
+        method,
+        ...snapshot,
+        error: {
+          name: error?.name ?? 'Error',
+          code: error instanceof IncludeKitError ? error.code : undefined,
+          message: String(error?.message ?? error),
+        },
+        durationMs: elapsed(start),
+      });
+      throw error;
+    }
+  }
+
+  private write(entry: RecordedCall): void {
+    let line: string;
+    try {
+      line = jsonSerializer.serialize(entry) as string;
+    } catch (error) {
+      this.logger.warn(
+        `RecordingEngine could not record ${entry.method} call ${entry.seq}:`,
+        error
+      );
+      return;
+    }
+    // Chain writes so lines land in call order
+    this.writes = this.writes
+      .then(() => this.sink(line))
+      .catch((error) => {
+        this.logger.warn('RecordingEngine sink error:', error);
+      });
+  }
+}
+
+/**
+ * Sink appending lines to a JSONL file
+ */
+export function fileSink(path: string): RecordingSink {
+  return (line) => appendFile(path, line + '\n', 'utf-8');
+}
+
+/**
+ * A point where the replayed engine disagreed with the recording
+ */
+export interface ReplayDivergence {
+  seq: number;
+  method: EngineMethod;
+  kind: 'evict' | 'invalidate' | 'error';
+  expected: any;
+  actual: any;
+  missing?: string[]; // invalidate: recorded evictions the new engine did not return
+  unexpected?: string[]; // invalidate: evictions the new engine added
+}
+
+export interface ReplayReport {
+  calls: number; // Calls in the recording
+  replayed: number; // Calls fed to the engine
+  shapeIdChanges: number; // Shapes whose ID differs between engines
+  divergences: ReplayDivergence[];
+}
+
+/**
+ * Feed a recording into a fresh engine and report where it diverges
+ *
+ * Shape IDs are translated from the recorded engine to the replayed one, so
+ * recordings stay comparable across engine versions that hash differently.
+ *
+ * @param recording - JSONL file path, or recorded lines/calls
+ * @param engine - Fresh engine to replay into
+ */
+export async function replayRecording(
+  recording: string | Iterable<string | RecordedCall>,
+  engine: Engine
+): Promise<ReplayReport> {
+  const calls = await readRecording(recording);
+  const shapeIds = new Map<string, string>(); // recorded -> replayed
+  const divergences: ReplayDivergence[] = [];
+  let replayed = 0;
+
+  for (const call of calls) {
+    if (!REPLAYED_METHODS.includes(call.method) || call.argsError !== undefined) continue;
+
+    let args = call.args;
+    if (call.method === 'explainInvalidation') {
+      const shapeId = shapeIds.get(args[0].shapeId) ?? args[0].shapeId;
+      args = [{ ...args[0], shapeId }];
+    }
+
+    let result: any;
+    let error: any;
+    try {
+      if (call.method === 'invalidateBatch') {
+        result = await invalidateBatch(engine, args[0]);
+      } else {
+        const fn = engine[call.method] as (...params: any[]) => Promise<any>;
+        result = await fn.apply(engine, args);
+      }
+    } catch (e) {
+      error = e;
+    }
+    replayed++;
+
+    if (!!error !== !!call.error) {
+      divergences.push({
+        seq: call.seq,
+        method: call.method,
+        kind: 'error',
+        expected: call.error ?? null,
+        actual: error ? { name: error.name, code: error.code, message: error.message } : null,
+      });
+      continue;
+    }
+    if (error) continue;
+
+    switch (call.method) {
+      case 'computeShapeId':
+      case 'addQuery':
+        if (call.result?.shapeId) shapeIds.set(call.result.shapeId, result.shapeId);
+        break;
+
+      case 'invalidate':
+      case 'invalidateBatch': {
+        const expected = (call.result?.evict ?? []).map(
+          (id: string) => shapeIds.get(id) ?? id
+        ) as string[];
+        const actual = new Set<string>(result.evict);
+        const missing = expected.filter((id) => !actual.has(id));
+        const unexpected = Array.from(actual).filter((id) => !expected.includes(id));
+        if (missing.length > 0 || unexpected.length > 0) {
+          divergences.push({
+            seq: call.seq,
+            method: call.method,
+            kind: 'evict',
+            expected,
+            actual: result.evict,
+            missing,
+            unexpected,
+          });
+        }
+        break;
+      }
+
+      case 'explainInvalidation':
+        if (call.result?.invalidate !== result.invalidate) {
+          divergences.push({
+            seq: call.seq,
+            method: call.method,
+            kind: 'invalidate',
+            expected: call.result,
+            actual: result,
+          });
+        }
+        break;
+    }
+  }
+
+  let shapeIdChanges = 0;
+  for (const [recorded, current] of shapeIds) {
+    if (recorded !== current) shapeIdChanges++;
+  }
+
+  return { calls: calls.length, replayed, shapeIdChanges, divergences };
+}
+
+async function readRecording(
+  recording: string | Iterable<string | RecordedCall>
+): Promise<RecordedCall[]> {
+  const entries =
+    typeof recording === 'string'
+      ? (await readFile(recording, 'utf-8')).split('\n')
+      : Array.from(recording);
+
+  const calls: RecordedCall[] = [];
+  for (const entry of entries) {
+    if (typeof entry !== 'string') {
+      calls.push(entry);
+    } else if (entry.trim() !== '') {
+      calls.push(jsonSerializer.deserialize(entry) as RecordedCall);
+    }
+  }
+  return calls.sort((a, b) => a.seq - b.seq);
+}
+
+function elapsed(start: number): number {
+  return Math.round((performance.now() - start) * 1000) / 1000;
+}
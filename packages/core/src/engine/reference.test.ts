@@ -0,0 +1,444 @@
+import { describe, expect, it } from 'vitest';
+import { ReferenceEngine } from './reference';
+import type { AppSchema, Change, Filter, Statement } from '../types';
+
+const schema: AppSchema = {
+  version: 1,
+  models: [
+    {
+      name: 'User',
+      id: { kind: 'string' },
+      relations: [
+        { name: 'posts', model: 'Post', cardinality: 'one-to-many', foreignKey: 'authorId' },
+      ],
+    },
+    {
+      name: 'Post',
+      id: { kind: 'string' },
+      relations: [{ name: 'author', model: 'User', cardinality: 'many-to-one' }],
+    },
+    { name: 'Tag', id: { kind: 'string' }, relations: [] },
+  ],
+} as AppSchema;
+
+const where = (...conditions: Array<[string, string, unknown]>): Filter => ({
+  conditions: conditions.map(([field, op, value]) => ({ field, op, value })),
+});
+
+const posts = (filter?: Filter, extra: Partial<Statement> = {}): Statement => ({
+  model: 'Post',
+  where: filter,
+  ...extra,
+});
+
+async function createEngine() {
+  const engine = new ReferenceEngine();
+  await engine.setSchema(schema);
+  return engine;
+}
+
+/**
+ * Track a statement and explain how a single change affects it
+ */
+async function explain(
+  statement: Statement,
+  change: Change,
+  resultHint?: Record<string, any[]>
+): Promise<{ invalidate: boolean; reason: string }> {
+  const engine = await createEngine();
+  const { shapeId } = await engine.addQuery({ shape: statement, resultHint });
+  const { invalidate, reasons } = await engine.explainInvalidation({
+    mutation: { changes: [change] },
+    shapeId,
+  });
+  return { invalidate, reason: reasons[0] };
+}
+
+const published = posts(where(['published', 'eq', true]));
+
+describe('ReferenceEngine', () => {
+  describe('contract', () => {
+    it('rejects calls before setSchema() and invalid schemas', async () => {
+      const engine = new ReferenceEngine();
+
+      await expect(engine.computeShapeId(posts())).rejects.toMatchObject({
+        code: 'ENGINE_STATE',
+      });
+      await expect(engine.setSchema({ version: 1, models: [] })).rejects.toMatchObject({
+        code: 'SCHEMA_INVALID',
+      });
+      await expect(
+        engine.setSchema({
+          version: 1,
+          models: [{ name: 'A', id: { kind: 'string' }, relations: [{ name: 'b', model: 'B' }] }],
+        } as AppSchema)
+      ).rejects.toMatchObject({ code: 'SCHEMA_INVALID' });
+    });
+
+    it('rejects unknown models and relations', async () => {
+      const engine = await createEngine();
+
+      await expect(engine.addQuery({ shape: { model: 'Nope' } })).rejects.toMatchObject({
+        code: 'QUERY_INVALID',
+      });
+      await expect(
+        engine.addQuery({ shape: posts(undefined, { include: [{ relation: 'nope' }] }) })
+      ).rejects.toMatchObject({ code: 'QUERY_INVALID' });
+      await expect(
+        engine.invalidate({ changes: [{ action: 'delete', model: 'Nope', id: '1' }] })
+      ).rejects.toMatchObject({ code: 'MUTATION_INVALID' });
+    });
+
+    it('computes the same shape ID for equivalent statements', async () => {
+      const engine = await createEngine();
+      const a = await engine.computeShapeId({
+        model: 'Post',
+        where: where(['id', 'eq', 'p1']),
+        orderBy: null,
+      });
+      const b = await engine.computeShapeId({
+        where: { conditions: [{ value: 'p1', op: 'eq', field: 'id' }] },
+        model: 'Post',
+      });
+      const c = await engine.computeShapeId(posts(where(['id', 'eq', 'p2'])));
+
+      expect(a.shapeId).toBe(b.shapeId);
+      expect(a.shapeId).not.toBe(c.shapeId);
+    });
+
+    it('reports the models, records and filters a shape depends on', async () => {
+      const engine = await createEngine();
+      const { dependencies } = await engine.addQuery({
+        shape: {
+          model: 'User',
+          include: [{ relation: 'posts', where: where(['draft', 'eq', false]) }],
+        },
+        resultHint: [{ id: 'u1', posts: [{ id: 'p1' }, { id: 'p2' }] }] as any,
+      });
+
+      expect(dependencies).toEqual({
+        models: { User: ['u1'], Post: ['p1', 'p2'] },
+        records: { User: ['u1'], Post: ['p1', 'p2'] },
+        filters: [where(['draft', 'eq', false])],
+      });
+    });
+  });
+
+  describe('inserts', () => {
+    it('keeps shapes the inserted row cannot match', async () => {
+      expect(
+        await explain(published, { action: 'insert', model: 'Post', sets: { published: false } })
+      ).toEqual({ invalidate: false, reason: 'inserted Post cannot match shape filters' });
+    });
+
+    it('evicts shapes the inserted row matches, or may match', async () => {
+      const insert = (sets: Record<string, unknown>): Change => ({
+        action: 'insert',
+        model: 'Post',
+        sets,
+      });
+
+      expect((await explain(published, insert({ published: true }))).invalidate).toBe(true);
+      // Not written, so unknown
+      expect((await explain(published, insert({ title: 'x' }))).invalidate).toBe(true);
+      // Atomic operations can't be evaluated
+      expect((await explain(published, insert({ published: { increment: 1 } }))).invalidate).toBe(
+        true
+      );
+    });
+
+    it('evaluates { set } wrappers, dates and comparisons', async () => {
+      const since = posts(where(['createdAt', 'gte', '2024-01-01T00:00:00.000Z']));
+      const insert = (sets: Record<string, unknown>): Change => ({
+        action: 'insert',
+        model: 'Post',
+        sets,
+      });
+
+      expect((await explain(published, insert({ published: { set: false } }))).invalidate).toBe(
+        false
+      );
+      expect(
+        (await explain(since, insert({ createdAt: new Date('2023-06-01T00:00:00Z') }))).invalidate
+      ).toBe(false);
+      expect(
+        (await explain(since, insert({ createdAt: new Date('2024-06-01T00:00:00Z') }))).invalidate
+      ).toBe(true);
+      expect(
+        (await explain(posts(where(['title', 'startsWith', 'How'])), insert({ title: 'Why' })))
+          .invalidate
+      ).toBe(false);
+      expect(
+        (await explain(posts(where(['views', 'in', [1, 2]])), insert({ views: 3 }))).invalidate
+      ).toBe(false);
+    });
+  });
+
+  describe('three-valued matching', () => {
+    const insert: Change = { action: 'insert', model: 'Post', sets: { published: false } };
+
+    it('keeps a shape when one ANDed part is false, even if another is unknown', async () => {
+      const statement = posts(where(['published', 'eq', true], ['title', 'eq', 'x']));
+      expect((await explain(statement, insert)).invalidate).toBe(false);
+    });
+
+    it('evicts when an ORed part is unknown and none is true', async () => {
+      const statement = posts({
+        OR: [where(['published', 'eq', true]), where(['title', 'eq', 'x'])],
+      });
+      expect((await explain(statement, insert)).invalidate).toBe(true);
+    });
+
+    it('negates known values and keeps unknown ones unknown', async () => {
+      const notPublished = posts({ NOT: where(['published', 'eq', false]) });
+      const notTitled = posts({ NOT: where(['title', 'eq', 'x']) });
+
+      expect((await explain(notPublished, insert)).invalidate).toBe(false);
+      expect((await explain(notTitled, insert)).invalidate).toBe(true);
+    });
+
+    it('treats unsupported operators as unknown', async () => {
+      const statement = posts(where(['published', 'unsupported:search', true]));
+      expect((await explain(statement, insert)).invalidate).toBe(true);
+    });
+
+    it('matches a row against any of the filters selecting its model', async () => {
+      // Post is read at the root and again through author.posts
+      const statement = posts(where(['published', 'eq', true]), {
+        include: [
+          {
+            relation: 'author',
+            includes: [{ relation: 'posts', where: where(['title', 'eq', 'x']) }],
+          },
+        ],
+      });
+      const insert = (title: string): Change => ({
+        action: 'insert',
+        model: 'Post',
+        sets: { published: false, title },
+      });
+
+      expect((await explain(statement, insert('x'))).invalidate).toBe(true);
+      expect((await explain(statement, insert('y'))).invalidate).toBe(false);
+    });
+  });
+
+  describe('updates and deletes', () => {
+    const hint = { Post: [{ id: 'p1' }] };
+
+    it('evicts shapes whose result holds the changed records', async () => {
+      expect(
+        await explain(published, { action: 'update', model: 'Post', id: 'p1', sets: {} }, hint)
+      ).toEqual({ invalidate: true, reason: 'updated Post records are in the result' });
+      expect(
+        await explain(published, { action: 'delete', model: 'Post', id: ['p2', 'p1'] }, hint)
+      ).toEqual({ invalidate: true, reason: 'deleted Post records are in the result' });
+    });
+
+    it('keeps shapes whose result lacks the deleted records', async () => {
+      expect(await explain(published, { action: 'delete', model: 'Post', id: 'p2' }, hint)).toEqual(
+        { invalidate: false, reason: 'deleted Post records are not in the result' }
+      );
+    });
+
+    it('keeps shapes an update of other records cannot move into', async () => {
+      const update: Change = {
+        action: 'update',
+        model: 'Post',
+        where: where(['id', 'in', ['p2', 'p3']]),
+        sets: { published: false },
+      };
+      expect((await explain(published, update, hint)).invalidate).toBe(false);
+      expect(
+        (await explain(published, { ...update, sets: { published: true } }, hint)).invalidate
+      ).toBe(true);
+    });
+
+    it('falls back to model-level invalidation without record IDs', async () => {
+      const byTitle: Change = {
+        action: 'update',
+        model: 'Post',
+        where: where(['title', 'eq', 'x']),
+        sets: { published: false },
+      };
+
+      expect(await explain(published, byTitle, hint)).toEqual({
+        invalidate: true,
+        reason: 'cannot prove Post update is unrelated (model-level invalidation)',
+      });
+      // Without a result hint the shape's records are unknown
+      expect(
+        (await explain(published, { action: 'delete', model: 'Post', id: 'p2' })).invalidate
+      ).toBe(true);
+    });
+
+    it('forgets record IDs of a model when a row lacks its ID', async () => {
+      const statement: Statement = { model: 'User', include: [{ relation: 'posts' }] };
+
+      expect(
+        (
+          await explain(
+            statement,
+            { action: 'delete', model: 'Post', id: 'p9' },
+            {
+              User: [{ id: 'u1' }],
+              Post: [{ title: 'no id' }],
+            }
+          )
+        ).invalidate
+      ).toBe(true);
+    });
+
+    it('keeps shapes that read none of the changed models', async () => {
+      expect(await explain(published, { action: 'delete', model: 'Tag', id: 't1' })).toEqual({
+        invalidate: false,
+        reason: 'shape does not read Tag',
+      });
+    });
+
+    it('evicts shapes reading either side of a link or unlink', async () => {
+      const link: Change = {
+        action: 'link',
+        model: 'User',
+        id: 'u1',
+        relation: 'posts',
+        targetModel: 'Post',
+        targetId: 'p1',
+      };
+
+      expect(await explain(published, link)).toEqual({
+        invalidate: true,
+        reason: 'link on User.posts changes related rows',
+      });
+      expect((await explain(published, { ...link, action: 'unlink' })).invalidate).toBe(true);
+    });
+  });
+
+  describe('fallbacks', () => {
+    it('invalidates on any change of a model filtered on through a relation', async () => {
+      const byAuthor = posts(where(['author', 'is', { name: 'Ann' }]), {
+        include: [{ relation: 'author' }],
+      });
+      const update: Change = {
+        action: 'update',
+        model: 'User',
+        id: 'u2',
+        sets: { bio: 'x' },
+      };
+
+      expect(await explain(byAuthor, update, { Post: [], User: [{ id: 'u1' }] })).toEqual({
+        invalidate: true,
+        reason: 'shape filters Post on related User rows',
+      });
+    });
+
+    it('finds relation filters nested in logical operators and relation values', async () => {
+      const nested: Statement = {
+        model: 'User',
+        where: {
+          OR: [where(['posts', 'some', { author: { is: { name: 'Ann' } } }])],
+        },
+      };
+      const engine = await createEngine();
+      const { dependencies } = await engine.addQuery({ shape: nested, resultHint: { User: [] } });
+
+      expect(Object.keys(dependencies.models!).sort()).toEqual(['Post', 'User']);
+      expect((await explain(nested, { action: 'delete', model: 'Post', id: 'p1' })).reason).toBe(
+        'shape filters User on related Post rows'
+      );
+    });
+
+    it('invalidates on any change of an offset-paginated model', async () => {
+      const page = posts(where(['published', 'eq', true]), {
+        pagination: { offset: 20, limit: 10 },
+      });
+      const insert: Change = { action: 'insert', model: 'Post', sets: { published: false } };
+
+      expect(await explain(page, insert, { Post: [] })).toEqual({
+        invalidate: true,
+        reason: 'offset-paginated Post rows shift on any change',
+      });
+      expect(
+        (await explain(posts(undefined, { pagination: { limit: 10 } }), insert)).invalidate
+      ).toBe(true); // No filter: any insert may match
+    });
+
+    it('applies the offset fallback to included relations only', async () => {
+      const statement: Statement = {
+        model: 'User',
+        where: where(['id', 'eq', 'u1']),
+        include: [{ relation: 'posts', pagination: { offset: 5 } }],
+      };
+      const hint = { User: [{ id: 'u1' }], Post: [] };
+
+      expect(
+        (await explain(statement, { action: 'delete', model: 'Post', id: 'p9' }, hint)).reason
+      ).toBe('offset-paginated Post rows shift on any change');
+      expect(
+        (await explain(statement, { action: 'delete', model: 'User', id: 'u2' }, hint)).invalidate
+      ).toBe(false);
+    });
+  });
+
+  describe('invalidate', () => {
+    it('evicts only the affected shapes and keeps them tracked', async () => {
+      const engine = await createEngine();
+      const p1 = await engine.addQuery({
+        shape: posts(where(['id', 'eq', 'p1'])),
+        resultHint: { Post: [{ id: 'p1' }] },
+      });
+      await engine.addQuery({
+        shape: posts(where(['id', 'eq', 'p2'])),
+        resultHint: { Post: [{ id: 'p2' }] },
+      });
+      const del = { changes: [{ action: 'delete', model: 'Post', id: 'p1' } as Change] };
+
+      expect(await engine.invalidate(del)).toEqual({ evict: [p1.shapeId] });
+      expect(await engine.invalidate(del)).toEqual({ evict: [p1.shapeId] });
+    });
+
+    it('audits a batch as one entry and counts every mutation', async () => {
+      const engine = new ReferenceEngine({ auditLogSize: 2 });
+      await engine.setSchema(schema);
+      const { shapeId } = await engine.addQuery({ shape: published });
+      const insert = (published: boolean) => ({
+        changes: [{ action: 'insert', model: 'Post', sets: { published } } as Change],
+      });
+
+      await engine.invalidate(insert(false));
+      const batch = await engine.invalidateBatch([insert(false), insert(true)]);
+
+      expect(batch).toEqual({ evict: [shapeId] });
+      const audit = await engine.auditLog();
+      expect(audit).toHaveLength(2);
+      expect(audit[1]).toMatchObject({
+        mutation: { changes: [insert(false).changes[0], insert(true).changes[0]] },
+        evict: [shapeId],
+        reasons: { [shapeId]: ['inserted Post may match shape filters'] },
+      });
+      expect((await engine.metrics()).counters).toEqual({
+        queriesAdded: 1,
+        invalidations: 3,
+        evictions: 1,
+      });
+
+      await engine.invalidate(insert(false));
+      expect(await engine.auditLog()).toHaveLength(2); // Oldest dropped
+    });
+
+    it('forgets tracked shapes on reset() and setSchema()', async () => {
+      const engine = await createEngine();
+      const { shapeId } = await engine.addQuery({ shape: published });
+
+      await engine.reset();
+      expect(await engine.explainInvalidation({ mutation: { changes: [] }, shapeId })).toEqual({
+        invalidate: false,
+        reasons: [`shape ${shapeId} is not tracked`],
+      });
+
+      await engine.addQuery({ shape: published });
+      await engine.setSchema(schema);
+      expect((await engine.health()).trackedShapes).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,725 @@
+import { createHash } from 'crypto';
+import {
+  EngineStatus,
+  type Engine,
+  type EngineHealth,
+  type EngineMetrics,
+  type AuditLogEntry,
+  type EngineErrorCode,
+} from './types';
+import type {
+  AppSchema,
+  Statement,
+  Mutation,
+  Change,
+  Dependencies,
+  Filter,
+  Condition,
+  Include,
+} from '../types';
+import { EngineError } from '../errors';
+
+export interface ReferenceEngineOptions {
+  auditLogSize?: number; // Default: 100 (most recent invalidate() calls kept)
+}
+
+type ModelDef = AppSchema['models'][number];
+
+/**
+ * Three-valued result of evaluating a filter against partial data
+ * undefined means "can't tell" and is always treated conservatively
+ */
+type Truth = boolean | undefined;
+
+interface TrackedShape {
+  shapeId: string;
+  statement: Statement;
+  // Every model the shape reads (root + includes), with the include filters
+  // that select rows of that model; null filter means "all rows"
+  models: Map<string, Array<Filter | null>>;
+  // Record IDs present in the result, per model; absent = unknown
+  records: Map<string, Set<string>>;
+  // Models any change to which invalidates the shape, with the reason:
+  // models filtered on through relations, and offset-paginated reads
+  modelLevel: Map<string, string>;
+}
+
+interface Decision {
+  invalidate: boolean;
+  reason: string;
+}
+
+const UNKNOWN = Symbol('unknown');
+
+/**
+ * Pure-TypeScript engine implementing the WASM engine contract
+ *
+ * Intended for tests and local development without core.wasm, and as an
+ * executable spec for the contract. Invalidation is conservative: a shape is
+ * only kept when the mutation provably cannot change its result; otherwise
+ * it falls back to model-level invalidation.
+ */
+export class ReferenceEngine implements Engine {
+  private schema?: AppSchema;
+  private models = new Map<string, ModelDef>();
+  private readonly shapes = new Map<string, TrackedShape>();
+  private readonly audit: AuditLogEntry[] = [];
+  private readonly auditLogSize: number;
+  private queriesAdded = 0;
+  private invalidations = 0;
+  private evictions = 0;
+
+  constructor(options: ReferenceEngineOptions = {}) {
+    this.auditLogSize = options.auditLogSize ?? 100;
+  }
+
+  async version(): Promise<{ core: string; contract: string; abi: string }> {
+    return { core: '0.1.0-reference', contract: '1.0', abi: '1.0' };
+  }
+
+  async setSchema(schema: AppSchema): Promise<void> {
+    if (!schema || !Array.isArray(schema.models) || schema.models.length === 0) {
+      throw this.error('SCHEMA_INVALID', 'schema must contain at least one model');
+    }
+
+    const models = new Map<string, ModelDef>();
+    for (const model of schema.models) {
+      if (!model.name) {
+        throw this.error('SCHEMA_INVALID', 'model name cannot be empty');
+      }
+      if (models.has(model.name)) {
+        throw this.error('SCHEMA_INVALID', `duplicate model '${model.name}'`);
+      }
+      models.set(model.name, model);
+    }
+
+    for (const model of schema.models) {
+      for (const relation of model.relations ?? []) {
+        if (!models.has(relation.model)) {
+          throw this.error(
+            'SCHEMA_INVALID',
+            `relation '${model.name}.${relation.name}' targets unknown model '${relation.model}'`
+          );
+        }
+      }
+    }
+
+    // A new schema invalidates everything tracked under the old one
+    this.schema = schema;
+    this.models = models;
+    this.shapes.clear();
+  }
+
+  async computeShapeId(statement: Statement): Promise<{ shapeId: string }> {
+    this.requireSchema();
+    this.collectModels(statement);
+    return { shapeId: this.shapeIdOf(statement) };
+  }
+
+  async addQuery(input: {
+    shape: Statement;
+    resultHint?: Record<string, any[]>;
+  }): Promise<{ shapeId: string; dependencies: Dependencies }> {
+    this.requireSchema();
+    const statement = input.shape;
+    const { models, modelLevel } = this.collectModels(statement);
+    const shapeId = this.shapeIdOf(statement);
+    const records = this.collectRecords(statement, input.resultHint);
+
+    this.shapes.set(shapeId, { shapeId, statement, models, records, modelLevel });
+    this.queriesAdded++;
+
+    const dependencies: Dependencies = {
+      models: {},
+      filters: [],
+      records: {},
+    };
+    for (const [model, filters] of models) {
+      const ids = records.get(model);
+      dependencies.models![model] = ids ? Array.from(ids) : [];
+      if (ids) {
+        dependencies.records![model] = Array.from(ids);
+      }
+      for (const filter of filters) {
+        if (filter) dependencies.filters!.push(filter);
+      }
+    }
+
+    return { shapeId, dependencies };
+  }
+
+  async invalidate(mutation: Mutation): Promise<{ evict: string[] }> {
+    this.requireSchema();
+    this.validateMutation(mutation);
+    return this.invalidateAll([mutation]);
+  }
+
+  async invalidateBatch(mutations: Mutation[]): Promise<{ evict: string[] }> {
+    this.requireSchema();
+    mutations.forEach((mutation) => this.validateMutation(mutation));
+    return this.invalidateAll(mutations);
+  }
+
+  async explainInvalidation(input: {
+    mutation: Mutation;
+    shapeId: string;
+  }): Promise<{ invalidate: boolean; reasons: string[] }> {
+    this.requireSchema();
+    this.validateMutation(input.mutation);
+
+    const shape = this.shapes.get(input.shapeId);
+    if (!shape) {
+      return { invalidate: false, reasons: [`shape ${input.shapeId} is not tracked`] };
+    }
+
+    const decisions = input.mutation.changes.map((change) => this.decide(shape, change));
+    return {
+      invalidate: decisions.some((d) => d.invalidate),
+      reasons: decisions.map((d) => d.reason),
+    };
+  }
+
+  async reset(): Promise<void> {
+    this.shapes.clear();
+    this.audit.length = 0;
+  }
+
+  async health(): Promise<EngineHealth> {
+    return {
+      status: this.schema ? 'ok' : 'degraded',
+      schemaLoaded: this.schema !== undefined,
+      trackedShapes: this.shapes.size,
+      message: this.schema ? undefined : 'schema not set',
+    };
+  }
+
+  async metrics(): Promise<EngineMetrics> {
+    let models = 0;
+    let records = 0;
+    let filters = 0;
+    for (const shape of this.shapes.values()) {
+      models += shape.models.size;
+      for (const ids of shape.records.values()) records += ids.size;
+      for (const list of shape.models.values()) filters += list.filter(Boolean).length;
+    }
+
+    return {
+      trackedShapes: this.shapes.size,
+      dependencyIndex: { models, records, filters },
+      counters: {
+        queriesAdded: this.queriesAdded,
+        invalidations: this.invalidations,
+        evictions: this.evictions,
+      },
+    };
+  }
+
+  async auditLog(): Promise<AuditLogEntry[]> {
+    return [...this.audit];
+  }
+
+  /**
+   * Evict every shape affected by any change of the given mutations
+   * A batch is audited as one entry holding all of its changes
+   */
+  private invalidateAll(mutations: Mutation[]): { evict: string[] } {
+    const mutation: Mutation =
+      mutations.length === 1 ? mutations[0] : { changes: mutations.flatMap((m) => m.changes) };
+    const evict: string[] = [];
+    const reasons: Record<string, string[]> = {};
+
+    for (const shape of this.shapes.values()) {
+      const decisions = mutation.changes.map((change) => this.decide(shape, change));
+      const positive = decisions.filter((d) => d.invalidate);
+      if (positive.length > 0) {
+        evict.push(shape.shapeId);
+        reasons[shape.shapeId] = positive.map((d) => d.reason);
+      }
+    }
+
+    // Evicted shapes stay tracked: if the write fails the cache entry
+    // survives, and a later mutation must still be able to evict it
+
+    this.invalidations += mutations.length;
+    this.evictions += evict.length;
+    this.audit.push({ timestamp: Date.now(), mutation, evict, reasons });
+    if (this.audit.length > this.auditLogSize) {
+      this.audit.splice(0, this.audit.length - this.auditLogSize);
+    }
+
+    return { evict };
+  }
+
+  /**
+   * Decide whether a single change can affect a tracked shape
+   */
+  private decide(shape: TrackedShape, change: Change): Decision {
+    const touched = [change.model, change.targetModel].filter(
+      (m): m is string => !!m && shape.models.has(m)
+    );
+    if (touched.length === 0) {
+      return { invalidate: false, reason: `shape does not read ${change.model}` };
+    }
+
+    if (change.action === 'link' || change.action === 'unlink') {
+      return {
+        invalidate: true,
+        reason: `${change.action} on ${change.model}.${change.relation ?? '?'} changes related rows`,
+      };
+    }
+
+    if (!shape.models.has(change.model)) {
+      return { invalidate: false, reason: `shape does not read ${change.model}` };
+    }
+
+    const modelLevel = shape.modelLevel.get(change.model);
+    if (modelLevel) {
+      return { invalidate: true, reason: modelLevel };
+    }
+
+    const model = change.model;
+    const filters = shape.models.get(model)!;
+    const known = shape.records.get(model);
+    const ids = this.changeIds(change);
+
+    switch (change.action) {
+      case 'insert': {
+        if (this.matchesAny(filters, change.sets ?? {}) === false) {
+          return { invalidate: false, reason: `inserted ${model} cannot match shape filters` };
+        }
+        return { invalidate: true, reason: `inserted ${model} may match shape filters` };
+      }
+
+      case 'delete': {
+        if (ids && known) {
+          return ids.some((id) => known.has(id))
+            ? { invalidate: true, reason: `deleted ${model} records are in the result` }
+            : { invalidate: false, reason: `deleted ${model} records are not in the result` };
+        }
+        return { invalidate: true, reason: `deleted ${model} records may be in the result` };
+      }
+
+      case 'update': {
+        if (ids && known && !ids.some((id) => known.has(id))) {
+          // Not in the result today; only matters if the update moves it in
+          if (this.matchesAny(filters, change.sets ?? {}) === false) {
+            return {
+              invalidate: false,
+              reason: `updated ${model} records are not in the result and cannot match shape filters`,
+            };
+          }
+          return { invalidate: true, reason: `updated ${model} records may now match shape filters` };
+        }
+        if (ids && known) {
+          return { invalidate: true, reason: `updated ${model} records are in the result` };
+        }
+        return {
+          invalidate: true,
+          reason: `cannot prove ${model} update is unrelated (model-level invalidation)`,
+        };
+      }
+    }
+
+    return { invalidate: true, reason: `unknown action '${change.action}'` };
+  }
+
+  /**
+   * Evaluate a row against the filters selecting a model (OR semantics)
+   */
+  private matchesAny(filters: Array<Filter | null>, row: Record<string, any>): Truth {
+    let result: Truth = false;
+    for (const filter of filters) {
+      const truth = this.evalFilter(filter, row);
+      if (truth === true) return true;
+      if (truth === undefined) result = undefined;
+    }
+    return result;
+  }
+
+  private evalFilter(filter: Filter | null | undefined, row: Record<string, any>): Truth {
+    if (!filter) return true;
+
+    const parts: Truth[] = [];
+    for (const condition of filter.conditions ?? []) {
+      parts.push(this.evalCondition(condition, row));
+    }
+    for (const sub of filter.AND ?? []) {
+      parts.push(this.evalFilter(sub, row));
+    }
+    if (filter.OR) {
+      parts.push(or(filter.OR.map((sub) => this.evalFilter(sub, row))));
+    }
+    if (filter.NOT) {
+      parts.push(not(this.evalFilter(filter.NOT, row)));
+    }
+
+    return and(parts);
+  }
+
+  private evalCondition(condition: Condition, row: Record<string, any>): Truth {
+    if (!(condition.field in row)) return undefined;
+
+    let raw: any = row[condition.field];
+    for (const key of condition.field_path ?? []) {
+      if (raw === null || typeof raw !== 'object') return undefined;
+      raw = raw[key];
+    }
+    const value = scalar(raw);
+    if (value === UNKNOWN) return undefined;
+
+    const target = condition.value;
+    switch (condition.op) {
+      case 'eq':
+        return equals(value, target);
+      case 'ne':
+        return not(equals(value, target));
+      case 'in':
+        return Array.isArray(target) ? or(target.map((t) => equals(value, t))) : undefined;
+      case 'notIn':
+        return Array.isArray(target) ? not(or(target.map((t) => equals(value, t)))) : undefined;
+      case 'lt':
+        return compare(value, target, (c) => c < 0);
+      case 'lte':
+        return compare(value, target, (c) => c <= 0);
+      case 'gt':
+        return compare(value, target, (c) => c > 0);
+      case 'gte':
+        return compare(value, target, (c) => c >= 0);
+      case 'contains':
+        return typeof value === 'string' && typeof target === 'string'
+          ? value.includes(target)
+          : undefined;
+      case 'startsWith':
+        return typeof value === 'string' && typeof target === 'string'
+          ? value.startsWith(target)
+          : undefined;
+      case 'endsWith':
+        return typeof value === 'string' && typeof target === 'string'
+          ? value.endsWith(target)
+          : undefined;
+      case 'has':
+        return Array.isArray(value) ? or(value.map((v) => equals(v, target))) : undefined;
+      case 'hasEvery':
+        return Array.isArray(value) && Array.isArray(target)
+          ? and(target.map((t) => or(value.map((v: any) => equals(v, t)))))
+          : undefined;
+      case 'hasSome':
+        return Array.isArray(value) && Array.isArray(target)
+          ? or(target.map((t) => or(value.map((v: any) => equals(v, t)))))
+          : undefined;
+      case 'isNull':
+        return typeof target === 'boolean' ? (value === null) === target : undefined;
+      case 'exists':
+        return typeof target === 'boolean' ? (value !== undefined) === target : undefined;
+      default:
+        // unsupported:* / unknown:* operators can't be evaluated
+        return undefined;
+    }
+  }
+
+  /**
+   * Record IDs targeted by a change, if they can be determined
+   */
+  private changeIds(change: Change): string[] | undefined {
+    const def = this.models.get(change.model);
+    if (!def) return undefined;
+
+    if (change.id !== undefined) {
+      if (def.id.kind === 'composite') {
+        return [idKey(change.id)];
+      }
+      return (Array.isArray(change.id) ? change.id : [change.id]).map(idKey);
+    }
+
+    // Only top-level conditions bound the target set (they're ANDed)
+    if (def.id.kind !== 'string' || !change.where?.conditions) return undefined;
+    for (const condition of change.where.conditions) {
+      if (condition.field !== 'id' || condition.field_path) continue;
+      if (condition.op === 'eq' && condition.value != null) {
+        return [idKey(condition.value)];
+      }
+      if (condition.op === 'in' && Array.isArray(condition.value)) {
+        return condition.value.map(idKey);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve every model a statement reads, validating it against the schema
+   */
+  private collectModels(statement: Statement): {
+    models: Map<string, Array<Filter | null>>;
+    modelLevel: Map<string, string>;
+  } {
+    const root = this.models.get(statement.model);
+    if (!root) {
+      throw this.error('QUERY_INVALID', `unknown model '${statement.model}'`);
+    }
+
+    const models = new Map<string, Array<Filter | null>>();
+    const modelLevel = new Map<string, string>();
+    const read = (model: string, filter: Filter | null) => {
+      models.set(model, [...(models.get(model) ?? []), filter]);
+    };
+
+    // Any row of a model filtered on through a relation can change which
+    // rows match, whether or not those rows are in the result
+    const relationFilter = (model: string, relationModel: string) => {
+      if (!models.has(relationModel)) read(relationModel, null);
+      modelLevel.set(relationModel, `shape filters ${model} on related ${relationModel} rows`);
+    };
+
+    // Relation conditions: the field names a relation and the value is the
+    // ORM's nested filter, so relations are matched by key at every level
+    const walkValue = (model: ModelDef, value: unknown) => {
+      if (Array.isArray(value)) {
+        value.forEach((item) => walkValue(model, item));
+        return;
+      }
+      if (!value || typeof value !== 'object') return;
+      for (const [key, nested] of Object.entries(value)) {
+        const relation = model.relations?.find((r) => r.name === key);
+        if (relation) {
+          relationFilter(model.name, relation.model);
+          walkValue(this.models.get(relation.model)!, nested);
+        } else {
+          walkValue(model, nested);
+        }
+      }
+    };
+    const walkFilter = (model: ModelDef, filter: Filter | null | undefined) => {
+      if (!filter) return;
+      for (const condition of filter.conditions ?? []) {
+        const relation = model.relations?.find((r) => r.name === condition.field);
+        if (relation) {
+          relationFilter(model.name, relation.model);
+          walkValue(this.models.get(relation.model)!, condition.value);
+        }
+      }
+      filter.AND?.forEach((sub) => walkFilter(model, sub));
+      filter.OR?.forEach((sub) => walkFilter(model, sub));
+      walkFilter(model, filter.NOT);
+    };
+
+    // Rows before an offset page decide which rows are on it, so inserts,
+    // deletes and updates anywhere in the model can shift it
+    const offset = (model: string, pagination: Statement['pagination']) => {
+      if (pagination?.offset) {
+        modelLevel.set(model, `offset-paginated ${model} rows shift on any change`);
+      }
+    };
+
+    read(root.name, statement.where ?? null);
+    walkFilter(root, statement.where);
+    offset(root.name, statement.pagination);
+
+    const walk = (model: ModelDef, includes: Include[] | null | undefined) => {
+      for (const include of includes ?? []) {
+        const relation = model.relations?.find((r) => r.name === include.relation);
+        if (!relation) {
+          throw this.error(
+            'QUERY_INVALID',
+            `unknown relation '${include.relation}' on model '${model.name}'`
+          );
+        }
+        const target = this.models.get(relation.model)!;
+        read(target.name, include.where ?? null);
+        walkFilter(target, include.where);
+        offset(target.name, include.pagination);
+        walk(target, include.includes);
+      }
+    };
+    walk(root, statement.include);
+
+    return { models, modelLevel };
+  }
+
+  /**
+   * Extract record IDs per model from the result (or an explicit hint)
+   */
+  private collectRecords(
+    statement: Statement,
+    hint: Record<string, any[]> | any[] | null | undefined
+  ): Map<string, Set<string>> {
+    const records = new Map<string, Set<string>>();
+    const unknown = new Set<string>();
+
+    if (hint === undefined) {
+      return records;
+    }
+
+    const add = (model: string, rows: any[]) => {
+      const ids = records.get(model) ?? new Set<string>();
+      for (const row of rows) {
+        const id = this.rowId(model, row);
+        if (id === undefined) {
+          unknown.add(model);
+        } else {
+          ids.add(id);
+        }
+      }
+      records.set(model, ids);
+    };
+
+    // Explicit per-model hint: { User: [...], Post: [...] }
+    if (
+      hint !== null &&
+      !Array.isArray(hint) &&
+      Object.keys(hint).length > 0 &&
+      Object.entries(hint).every(([k, v]) => this.models.has(k) && Array.isArray(v))
+    ) {
+      for (const [model, rows] of Object.entries(hint)) add(model, rows);
+    } else {
+      // Raw query result: array (findMany), object (findUnique) or null
+      const rows = hint === null ? [] : Array.isArray(hint) ? hint : [hint];
+      const walk = (model: ModelDef, rows: any[], includes: Include[] | null | undefined) => {
+        add(model.name, rows);
+        for (const include of includes ?? []) {
+          const relation = model.relations!.find((r) => r.name === include.relation)!;
+          const target = this.models.get(relation.model)!;
+          const related: any[] = [];
+          for (const row of rows) {
+            const value = row?.[include.relation];
+            if (value === undefined) unknown.add(target.name);
+            else if (Array.isArray(value)) related.push(...value);
+            else if (value !== null) related.push(value);
+          }
+          walk(target, related, include.includes);
+        }
+      };
+      walk(this.models.get(statement.model)!, rows, statement.include);
+    }
+
+    // Any row without an ID makes the whole model's record set unknown
+    for (const model of unknown) records.delete(model);
+    return records;
+  }
+
+  private rowId(model: string, row: any): string | undefined {
+    if (!row || typeof row !== 'object') return undefined;
+    const def = this.models.get(model)!;
+    if (def.id.kind === 'composite') {
+      const values = (def.id.fields ?? []).map((f) => row[f]);
+      return values.some((v) => v === undefined) ? undefined : idKey(values);
+    }
+    return row.id === undefined ? undefined : idKey(row.id);
+  }
+
+  private validateMutation(mutation: Mutation): void {
+    if (!mutation || !Array.isArray(mutation.changes)) {
+      throw this.error('MUTATION_INVALID', 'mutation must have a changes array');
+    }
+    for (const change of mutation.changes) {
+      if (!this.models.has(change.model)) {
+        throw this.error('MUTATION_INVALID', `unknown model '${change.model}'`);
+      }
+      if (change.targetModel && !this.models.has(change.targetModel)) {
+        throw this.error('MUTATION_INVALID', `unknown model '${change.targetModel}'`);
+      }
+    }
+  }
+
+  private shapeIdOf(statement: Statement): string {
+    const json = JSON.stringify(canonicalize(statement));
+    return createHash('sha256').update(json).digest('hex').slice(0, 32);
+  }
+
+  private requireSchema(): void {
+    if (!this.schema) {
+      throw this.error('ENGINE_STATE', 'schema not set; call setSchema() first');
+    }
+  }
+
+  private error(code: Exclude<EngineErrorCode, 'UNKNOWN'>, message: string): EngineError {
+    return new EngineError(code, EngineStatus[code], message);
+  }
+}
+
+/**
+ * Sort object keys and drop unset optional fields so equivalent statements
+ * hash equally (null is only significant as a condition value)
+ */
+function canonicalize(value: any): any {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return value.toString();
+  if (value && typeof value === 'object') {
+    const out: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      const field = value[key];
+      if (field === undefined || (field === null && key !== 'value')) continue;
+      out[key] = canonicalize(field);
+    }
+    return out;
+  }
+  return value;
+}
+
+function idKey(id: unknown): string {
+  return Array.isArray(id) ? JSON.stringify(id.map(String)) : String(id);
+}
+
+/**
+ * Normalize a written value for comparison; UNKNOWN for values that can't
+ * be evaluated (e.g. atomic ops like { increment: 1 })
+ */
+function scalar(value: any): any {
+  if (value instanceof Date) return value.getTime();
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    if (typeof value.toNumber === 'function') return value.toNumber(); // Decimal
+    if ('set' in value && Object.keys(value).length === 1) return scalar(value.set);
+    return UNKNOWN;
+  }
+  return value;
+}
+
+/**
+ * Bring two values to a comparable form; dates may arrive as Date objects
+ * (already numbers via scalar) on one side and ISO strings on the other
+ */
+function coerce(a: any, b: any): [any, any] | undefined {
+  const right = scalar(b);
+  if (right === UNKNOWN) return undefined;
+  if (typeof a === 'number' && typeof right === 'string') {
+    const parsed = Date.parse(right);
+    return Number.isNaN(parsed) ? undefined : [a, parsed];
+  }
+  if (typeof a === 'string' && typeof right === 'number') {
+    const parsed = Date.parse(a);
+    return Number.isNaN(parsed) ? undefined : [parsed, right];
+  }
+  return [a, right];
+}
+
+function equals(a: any, b: any): Truth {
+  const pair = coerce(a, b);
+  if (!pair) return undefined;
+  if (typeof pair[0] === 'object' && pair[0] !== null) return undefined;
+  return pair[0] === pair[1];
+}
+
+function compare(a: any, b: any, test: (c: number) => boolean): Truth {
+  const pair = coerce(a, b);
+  if (!pair) return undefined;
+  const [left, right] = pair;
+  if (left === null || right === null || typeof left !== typeof right) return undefined;
+  if (typeof left !== 'number' && typeof left !== 'string' && typeof left !== 'bigint') {
+    return undefined;
+  }
+  return test(left < right ? -1 : left > right ? 1 : 0);
+}
+
+function and(values: Truth[]): Truth {
+  if (values.some((v) => v === false)) return false;
+  return values.every((v) => v === true) ? true : undefined;
+}
+
+function or(values: Truth[]): Truth {
+  if (values.some((v) => v === true)) return true;
+  return values.every((v) => v === false) ? false : undefined;
+}
+
+function not(value: Truth): Truth {
+  return value === undefined ? undefined : !value;
+}
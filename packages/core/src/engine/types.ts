@@ -15,6 +15,7 @@ export interface Engine {
     dependencies: Dependencies;
   }>;
   invalidate(mutation: Mutation): Promise<{ evict: string[] }>;
+  invalidateBatch?(mutations: Mutation[]): Promise<{ evict: string[] }>; // Deduplicated
   explainInvalidation(input: {
     mutation: Mutation;
     shapeId: string;
@@ -23,6 +24,71 @@ export interface Engine {
     reasons: string[];
   }>;
   reset(): Promise<void>;
+  // Diagnostics; optional, so engines written before them still type-check
+  health?(): Promise<EngineHealth>;
+  metrics?(): Promise<EngineMetrics>;
+  auditLog?(): Promise<AuditLogEntry[]>;
+  /**
+   * Subscribe to restarts that lose tracked queries (e.g. a crashed worker
+   * replaced by WorkerEngine); returns an unsubscribe function
+   */
+  onRestart?(listener: (error: Error) => void): () => void;
+  close?(): Promise<void>; // Release resources (e.g. terminate a worker)
+}
+
+/**
+ * Invalidate several mutations in one call: engine.invalidateBatch() when
+ * the engine has it, else one invalidate() of all their changes
+ */
+export function invalidateBatch(
+  engine: Engine,
+  mutations: Mutation[]
+): Promise<{ evict: string[] }> {
+  return engine.invalidateBatch
+    ? engine.invalidateBatch(mutations)
+    : engine.invalidate({ changes: mutations.flatMap((mutation) => mutation.changes) });
+}
+
+/**
+ * Engine health report (from ik_health)
+ * SDK-side shape: the engine spec doesn't define this payload yet, so the
+ * WASM engine's JSON is passed through as is
+ */
+export interface EngineHealth {
+  status: 'ok' | 'degraded' | 'error';
+  schemaLoaded: boolean;
+  trackedShapes: number;
+  message?: string;
+}
+
+/**
+ * Engine internal metrics (from ik_metrics)
+ * SDK-side shape, not defined by the engine spec (see EngineHealth)
+ */
+export interface EngineMetrics {
+  trackedShapes: number;
+  dependencyIndex: {
+    models: number; // Model-level index entries
+    records: number; // Record-level index entries
+    filters: number; // Filter predicates indexed for invalidation
+  };
+  counters: {
+    queriesAdded: number;
+    invalidations: number;
+    evictions: number;
+  };
+  memoryBytes?: number;
+}
+
+/**
+ * Recent invalidation decision (from ik_audit_log)
+ * SDK-side shape, not defined by the engine spec (see EngineHealth)
+ */
+export interface AuditLogEntry {
+  timestamp: number;
+  mutation: Mutation;
+  evict: string[];
+  reasons?: Record<string, string[]>; // shapeId -> reasons
 }
 
 /**
@@ -42,17 +108,22 @@ export enum EngineStatus {
 }
 
 /**
- * Engine error response
+ * Error code string for a non-OK engine status
+ */
+export type EngineErrorCode = Exclude<keyof typeof EngineStatus, 'OK'> | 'UNKNOWN';
+
+/**
+ * Engine error response (JSON written by ik_last_error)
  */
-export interface EngineError {
-  code: string;
+export interface EngineErrorResponse {
+  code: EngineErrorCode;
   message: string;
 }
 
 /**
  * Map status code to error code string
  */
-export function statusToErrorCode(status: number): string {
+export function statusToErrorCode(status: number): EngineErrorCode {
   switch (status) {
     case EngineStatus.ABI_MISMATCH:
       return 'ABI_MISMATCH';
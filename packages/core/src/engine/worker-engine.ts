@@ -0,0 +1,291 @@
+import { Worker } from 'worker_threads';
+import {
+  EngineStatus,
+  type Engine,
+  type EngineHealth,
+  type EngineMetrics,
+  type AuditLogEntry,
+} from './types';
+import type { AppSchema, Statement, Mutation, Dependencies } from '../types';
+import type { Logger } from '../logger';
+import { consoleLogger } from '../logger';
+import { EngineError } from '../errors';
+import {
+  deserializeError,
+  type EngineMethod,
+  type WorkerRequest,
+  type WorkerResponse,
+} from './worker-protocol';
+
+export interface WorkerEngineOptions {
+  maxRestarts?: number; // Default: 5 (consecutive crashes before giving up)
+  onRestart?: (error: Error) => void; // Called after a crashed worker is replaced
+  logger?: Logger; // Default: consoleLogger
+}
+
+interface PendingCall {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Engine hosted in a worker thread
+ *
+ * - Requests are pipelined: calls are posted immediately, the worker
+ *   executes them in order and replies by request id
+ * - A crashed worker is replaced and the last schema re-applied; tracked
+ *   queries are lost, so onRestart listeners must clear any cache fed by
+ *   this engine (withORM subscribes automatically)
+ */
+export class WorkerEngine implements Engine {
+  private worker!: Worker;
+  private readonly pending = new Map<number, PendingCall>();
+  private readonly restartListeners = new Set<(error: Error) => void>();
+  private readonly maxRestarts: number;
+  private readonly logger: Logger;
+  private nextId = 1;
+  private restarts = 0;
+  private schema?: AppSchema;
+  private failure?: Error;
+  private started = false;
+  private closed = false;
+
+  private constructor(
+    private readonly module: WebAssembly.Module,
+    private readonly options: WorkerEngineOptions
+  ) {
+    this.maxRestarts = options.maxRestarts ?? 5;
+    this.logger = options.logger ?? consoleLogger;
+  }
+
+  /**
+   * Spawn a worker for the compiled module and wait until it is ready
+   */
+  static async start(
+    module: WebAssembly.Module,
+    options: WorkerEngineOptions = {}
+  ): Promise<WorkerEngine> {
+    const engine = new WorkerEngine(module, options);
+    try {
+      await engine.spawn();
+    } catch (error) {
+      engine.closed = true;
+      await engine.worker.terminate();
+      throw error;
+    }
+    engine.started = true;
+    return engine;
+  }
+
+  async version(): Promise<{ core: string; contract: string; abi: string }> {
+    return this.call('version', []);
+  }
+
+  async setSchema(schema: AppSchema): Promise<void> {
+    await this.call('setSchema', [schema]);
+    // Remember for replay after a worker restart
+    this.schema = schema;
+  }
+
+  async computeShapeId(statement: Statement): Promise<{ shapeId: string }> {
+    return this.call('computeShapeId', [statement]);
+  }
+
+  async addQuery(input: {
+    shape: Statement;
+    resultHint?: Record<string, any[]>;
+  }): Promise<{ shapeId: string; dependencies: Dependencies }> {
+    return this.call('addQuery', [input]);
+  }
+
+  async invalidate(mutation: Mutation): Promise<{ evict: string[] }> {
+    return this.call('invalidate', [mutation]);
+  }
+
+  async invalidateBatch(mutations: Mutation[]): Promise<{ evict: string[] }> {
+    return this.call('invalidateBatch', [mutations]);
+  }
+
+  async explainInvalidation(input: {
+    mutation: Mutation;
+    shapeId: string;
+  }): Promise<{ invalidate: boolean; reasons: string[] }> {
+    return this.call('explainInvalidation', [input]);
+  }
+
+  async reset(): Promise<void> {
+    await this.call('reset', []);
+  }
+
+  async health(): Promise<EngineHealth> {
+    return this.call('health', []);
+  }
+
+  async metrics(): Promise<EngineMetrics> {
+    return this.call('metrics', []);
+  }
+
+  async auditLog(): Promise<AuditLogEntry[]> {
+    return this.call('auditLog', []);
+  }
+
+  /**
+   * Terminate the worker; pending and future calls are rejected
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.rejectAll(this.stateError('Engine worker closed'));
+    await this.worker.terminate();
+  }
+
+  /**
+   * Post a call to the worker without waiting for earlier calls
+   */
+  private call<T>(method: EngineMethod, args: any[]): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(this.stateError('Engine worker closed'));
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.updateRef();
+      this.post({ type: 'call', id, method, args });
+    });
+  }
+
+  private post(message: WorkerRequest): void {
+    this.worker.postMessage(message);
+  }
+
+  /**
+   * Start a worker and initialize it with the compiled module
+   */
+  private spawn(): Promise<void> {
+    const worker = new Worker(new URL('./worker.js', import.meta.url));
+    this.worker = worker;
+
+    const ready = new Promise<void>((resolve, reject) => {
+      worker.on('message', (message: WorkerResponse) => {
+        switch (message.type) {
+          case 'ready':
+            resolve();
+            break;
+          case 'init-error':
+            reject(deserializeError(message.error));
+            break;
+          case 'result':
+            this.settle(message.id, (call) => call.resolve(message.value));
+            break;
+          case 'error':
+            this.settle(message.id, (call) => call.reject(deserializeError(message.error)));
+            break;
+        }
+      });
+
+      worker.on('error', (error) => {
+        reject(error);
+        this.handleCrash(worker, error);
+      });
+
+      worker.on('exit', (code) => {
+        const error = new Error(`Engine worker exited with code ${code}`);
+        reject(error);
+        this.handleCrash(worker, error);
+      });
+    });
+
+    this.post({ type: 'init', module: this.module });
+
+    // Keep the process alive until the worker is ready, then only while
+    // calls are waiting for a reply; listeners re-ref the worker, so this
+    // runs after they are attached
+    worker.ref();
+    return ready.finally(() => {
+      if (worker === this.worker) this.updateRef();
+    });
+  }
+
+  /**
+   * Ref the worker while calls are pending so an idle worker doesn't keep
+   * the process alive, but a waiting call does
+   */
+  private updateRef(): void {
+    if (this.pending.size > 0) {
+      this.worker.ref();
+    } else {
+      this.worker.unref();
+    }
+  }
+
+  private settle(id: number, fn: (call: PendingCall) => void): void {
+    const call = this.pending.get(id);
+    if (call) {
+      this.pending.delete(id);
+      this.updateRef();
+      // A successful reply means the worker is healthy again
+      this.restarts = 0;
+      fn(call);
+    }
+  }
+
+  onRestart(listener: (error: Error) => void): () => void {
+    this.restartListeners.add(listener);
+    return () => {
+      this.restartListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fail in-flight calls and replace the worker
+   */
+  private handleCrash(worker: Worker, cause: Error): void {
+    // Ignore late events from a worker that was already replaced; failures
+    // during the initial start are reported by start() instead
+    if (worker !== this.worker || this.closed || !this.started) {
+      return;
+    }
+
+    this.rejectAll(this.stateError(`Engine worker crashed: ${cause.message}`, cause));
+
+    if (this.restarts >= this.maxRestarts) {
+      this.failure = this.stateError(
+        `Engine worker crashed ${this.restarts + 1} times in a row; giving up`,
+        cause
+      );
+      this.logger.error(this.failure.message);
+      return;
+    }
+
+    this.restarts++;
+    this.logger.warn(`Engine worker crashed, restarting (attempt ${this.restarts}):`, cause);
+
+    this.spawn().catch((error) => {
+      this.logger.error('Engine worker restart failed:', error);
+    });
+
+    // Re-apply schema before any queued call reaches the new worker
+    if (this.schema) {
+      this.call('setSchema', [this.schema]).catch((error) => {
+        this.logger.error('Failed to restore schema after engine worker restart:', error);
+      });
+    }
+
+    this.options.onRestart?.(cause);
+    this.restartListeners.forEach((listener) => listener(cause));
+  }
+
+  private rejectAll(error: Error): void {
+    const calls = Array.from(this.pending.values());
+    this.pending.clear();
+    this.updateRef();
+    calls.forEach((call) => call.reject(error));
+  }
+
+  private stateError(message: string, cause?: Error): EngineError {
+    return new EngineError('ENGINE_STATE', EngineStatus.ENGINE_STATE, message, { cause });
+  }
+}
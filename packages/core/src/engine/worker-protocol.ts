@@ -0,0 +1,79 @@
+import { EngineError, IncludeKitError, WasmLoadError } from '../errors';
+import { EngineStatus, type Engine } from './types';
+
+/**
+ * Engine methods callable across the worker boundary
+ */
+export type EngineMethod = Exclude<keyof Engine, 'onRestart' | 'close'>;
+
+/**
+ * Messages sent from the main thread to the worker
+ */
+export type WorkerRequest =
+  | { type: 'init'; module: WebAssembly.Module }
+  | { type: 'call'; id: number; method: EngineMethod; args: any[] };
+
+/**
+ * Messages sent from the worker to the main thread
+ */
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'init-error'; error: SerializedError }
+  | { type: 'result'; id: number; value: any }
+  | { type: 'error'; id: number; error: SerializedError };
+
+/**
+ * Structured-clone friendly error representation
+ */
+export interface SerializedError {
+  name: string;
+  code?: string;
+  status?: number;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Convert an error to a message that survives postMessage
+ */
+export function serializeError(error: any): SerializedError {
+  if (error instanceof IncludeKitError) {
+    return {
+      name: error.name,
+      code: error.code,
+      status: error instanceof EngineError ? error.status : undefined,
+      message: error.message,
+      details: error.details,
+    };
+  }
+  return { name: error?.name ?? 'Error', message: String(error?.message ?? error) };
+}
+
+/**
+ * Rebuild the typed error thrown on the worker side
+ */
+export function deserializeError(error: SerializedError): Error {
+  switch (error.name) {
+    case 'EngineError': {
+      // Message already carries the "[CODE] " prefix
+      const prefix = `[${error.code}] `;
+      const message = error.message.startsWith(prefix)
+        ? error.message.slice(prefix.length)
+        : error.message;
+      return new EngineError(
+        error.code as EngineError['code'],
+        error.status ?? EngineStatus.INTERNAL,
+        message,
+        { details: error.details }
+      );
+    }
+    case 'WasmLoadError':
+      return new WasmLoadError(error.code as WasmLoadError['code'], error.message, {
+        details: error.details,
+      });
+    default:
+      return error.code
+        ? new IncludeKitError(error.code, error.message, { details: error.details })
+        : new Error(error.message);
+  }
+}
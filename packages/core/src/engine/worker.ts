@@ -0,0 +1,52 @@
+/**
+ * Worker thread entry point
+ * Hosts a WASMEngine and serves calls from WorkerEngine in arrival order
+ */
+
+import { parentPort } from 'worker_threads';
+import { instantiateEngine, type WASMEngine } from './wasm-engine';
+import { serializeError, type WorkerRequest, type WorkerResponse } from './worker-protocol';
+
+if (!parentPort) {
+  throw new Error('IncludeKit engine worker must be started as a worker thread');
+}
+
+const port = parentPort;
+let engine: Promise<WASMEngine> | undefined;
+
+// Calls are chained so they execute strictly in the order they were posted
+let queue: Promise<void> = Promise.resolve();
+
+function reply(message: WorkerResponse): void {
+  port.postMessage(message);
+}
+
+port.on('message', (message: WorkerRequest) => {
+  if (message.type === 'init') {
+    engine = instantiateEngine(message.module);
+    queue = queue.then(async () => {
+      try {
+        await engine;
+        reply({ type: 'ready' });
+      } catch (error) {
+        reply({ type: 'init-error', error: serializeError(error) });
+      }
+    });
+    return;
+  }
+
+  const { id, method, args } = message;
+  queue = queue.then(async () => {
+    try {
+      if (!engine) {
+        throw new Error('Engine worker received a call before init');
+      }
+      const instance = await engine;
+      const fn = instance[method] as (...params: any[]) => Promise<any>;
+      const value = await fn.apply(instance, args);
+      reply({ type: 'result', id, value });
+    } catch (error) {
+      reply({ type: 'error', id, error: serializeError(error) });
+    }
+  });
+});
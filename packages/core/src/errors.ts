@@ -0,0 +1,85 @@
+import type { EngineErrorCode } from './engine/types';
+
+/**
+ * Options shared by all IncludeKit errors
+ */
+export interface IncludeKitErrorOptions {
+  cause?: unknown;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Base class for all errors thrown by the SDK
+ * Branch on the subclass (or `code`) instead of parsing messages
+ */
+export class IncludeKitError extends Error {
+  readonly code: string;
+  readonly details: Record<string, unknown>;
+
+  constructor(code: string, message: string, options: IncludeKitErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.code = code;
+    this.details = options.details ?? {};
+  }
+}
+
+/**
+ * Error reported by the engine (non-OK status)
+ */
+export class EngineError extends IncludeKitError {
+  declare readonly code: EngineErrorCode;
+  readonly status: number;
+
+  constructor(
+    code: EngineErrorCode,
+    status: number,
+    message: string,
+    options: IncludeKitErrorOptions = {}
+  ) {
+    super(code, `[${code}] ${message}`, options);
+    this.status = status;
+  }
+}
+
+export type SchemaErrorCode = 'SCHEMA_NOT_FOUND' | 'SCHEMA_PARSE_FAILED' | 'SCHEMA_INVALID';
+
+/**
+ * Error loading or validating an AppSchema
+ */
+export class SchemaError extends IncludeKitError {
+  declare readonly code: SchemaErrorCode;
+
+  constructor(code: SchemaErrorCode, message: string, options: IncludeKitErrorOptions = {}) {
+    super(code, message, options);
+  }
+}
+
+export type WasmLoadErrorCode = 'WASM_READ_FAILED' | 'WASM_INSTANTIATE_FAILED' | 'WASM_INVALID';
+
+/**
+ * Error reading, compiling or validating the WASM binary
+ */
+export class WasmLoadError extends IncludeKitError {
+  declare readonly code: WasmLoadErrorCode;
+
+  constructor(code: WasmLoadErrorCode, message: string, options: IncludeKitErrorOptions = {}) {
+    super(code, message, options);
+  }
+}
+
+/**
+ * Operation did not complete within its time budget
+ */
+export class TimeoutError extends IncludeKitError {
+  declare readonly code: 'TIMEOUT';
+  readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number, options: IncludeKitErrorOptions = {}) {
+    super('TIMEOUT', message, {
+      ...options,
+      details: { timeoutMs, ...options.details },
+    });
+    this.timeoutMs = timeoutMs;
+  }
+}
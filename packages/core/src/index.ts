@@ -10,12 +10,53 @@ export * from './types';
 export * from './engine/types';
 export * from './cache/types';
 export * from './logger';
+export * from './errors';
 
 // Engine
 export { loadEngine } from './engine/loader';
+export type { LoadEngineOptions, EngineSource } from './engine/loader';
+export {
+  assertEngineCompatible,
+  satisfiesRange,
+  SUPPORTED_ENGINE_VERSIONS,
+} from './engine/compatibility';
+export type { EngineCompatibility } from './engine/compatibility';
+export { WorkerEngine } from './engine/worker-engine';
+export type { WorkerEngineOptions } from './engine/worker-engine';
+export { ReferenceEngine } from './engine/reference';
+export { RecordingEngine, replayRecording, fileSink } from './engine/recording';
+export type {
+  RecordedCall,
+  RecordingSink,
+  RecordingEngineOptions,
+  ReplayDivergence,
+  ReplayReport,
+} from './engine/recording';
+export type { ReferenceEngineOptions } from './engine/reference';
 
 // Cache implementations
 export { MemoryLRU } from './cache/memory';
 export type { MemoryLRUConfig } from './cache/memory';
+export { structuralSize, serializedSize } from './cache/size';
+export type { SizeEstimator } from './cache/size';
 export { RedisCache } from './cache/redis';
 export type { RedisCacheConfig } from './cache/redis';
+export { createJsonSerializer, jsonSerializer, setDefaultDecimal } from './cache/serializer';
+export type { Serializer, JsonSerializerOptions } from './cache/serializer';
+export { FileCache } from './cache/file';
+export type { FileCacheConfig } from './cache/file';
+export { TieredCache } from './cache/tiered';
+export type { TieredCacheConfig, TieredCacheMessage } from './cache/tiered';
+export { CircuitBreakerCache } from './cache/circuit-breaker';
+export type {
+  CircuitBreakerConfig,
+  CircuitBreakerStatus,
+  CircuitState,
+} from './cache/circuit-breaker';
+
+// Pub/sub
+export * from './pubsub/types';
+export { LocalPubSub } from './pubsub/local';
+export type { LocalPubSubConfig } from './pubsub/local';
+export { RedisPubSub } from './pubsub/redis';
+export type { RedisPubSubConfig } from './pubsub/redis';
@@ -0,0 +1,44 @@
+import type { PubSub, PubSubHandler } from './types';
+import type { Logger } from '../logger';
+import { consoleLogger } from '../logger';
+
+export interface LocalPubSubConfig {
+  logger?: Logger; // Default: consoleLogger (handler errors are logged, never thrown)
+}
+
+/**
+ * In-process pub/sub for tests and single-process setups
+ * Share one instance between the components that should hear each other.
+ * publish() resolves once every handler has finished.
+ */
+export class LocalPubSub<T> implements PubSub<T> {
+  private readonly handlers = new Set<PubSubHandler<T>>();
+  private readonly logger: Logger;
+
+  constructor(config: LocalPubSubConfig = {}) {
+    this.logger = config.logger ?? consoleLogger;
+  }
+
+  async publish(message: T): Promise<void> {
+    await Promise.all(
+      Array.from(this.handlers, async (handler) => {
+        try {
+          await handler(message);
+        } catch (error) {
+          this.logger.warn('LocalPubSub handler error:', error);
+        }
+      })
+    );
+  }
+
+  async subscribe(handler: PubSubHandler<T>): Promise<() => Promise<void>> {
+    this.handlers.add(handler);
+    return async () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
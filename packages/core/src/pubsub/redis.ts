@@ -0,0 +1,100 @@
+import type { Redis } from 'ioredis';
+import type { PubSub, PubSubHandler } from './types';
+import { jsonSerializer, type Serializer } from '../cache/serializer';
+import type { Logger } from '../logger';
+import { consoleLogger } from '../logger';
+
+export interface RedisPubSubConfig {
+  client: Redis; // Used for PUBLISH
+  subscriber?: Redis; // Default: client.duplicate() (a subscribed connection can't run other commands)
+  channel: string;
+  serializer?: Serializer; // Default: jsonSerializer
+  logger?: Logger; // Default: consoleLogger
+}
+
+/**
+ * Redis pub/sub channel
+ *
+ * Error handling: publish() and subscribe() reject on Redis errors so callers
+ * can decide whether a lost message matters; malformed messages and handler
+ * errors are logged.
+ */
+export class RedisPubSub<T> implements PubSub<T> {
+  private readonly client: Redis;
+  private readonly subscriber: Redis;
+  private readonly ownsSubscriber: boolean;
+  private readonly channel: string;
+  private readonly serializer: Serializer;
+  private readonly logger: Logger;
+  private readonly handlers = new Set<PubSubHandler<T>>();
+  private readonly event: 'message' | 'messageBuffer';
+
+  constructor(config: RedisPubSubConfig) {
+    this.client = config.client;
+    this.subscriber = config.subscriber ?? config.client.duplicate();
+    this.ownsSubscriber = !config.subscriber;
+    this.channel = config.channel;
+    this.serializer = config.serializer ?? jsonSerializer;
+    this.logger = config.logger ?? consoleLogger;
+
+    this.event = this.serializer.binary ? 'messageBuffer' : 'message';
+    this.subscriber.on(this.event, this.onMessage);
+  }
+
+  async publish(message: T): Promise<void> {
+    const data = this.serializer.serialize(message);
+    await this.client.publish(
+      this.channel,
+      typeof data === 'string' ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+    );
+  }
+
+  async subscribe(handler: PubSubHandler<T>): Promise<() => Promise<void>> {
+    this.handlers.add(handler);
+    if (this.handlers.size === 1) {
+      await this.subscriber.subscribe(this.channel);
+    }
+
+    return async () => {
+      if (this.handlers.delete(handler) && this.handlers.size === 0) {
+        await this.subscriber.unsubscribe(this.channel);
+      }
+    };
+  }
+
+  /**
+   * Drop all handlers; disconnects the subscriber if this instance created it
+   */
+  async close(): Promise<void> {
+    this.handlers.clear();
+    this.subscriber.off(this.event, this.onMessage);
+    if (this.ownsSubscriber) {
+      this.subscriber.disconnect();
+    } else {
+      await this.subscriber.unsubscribe(this.channel);
+    }
+  }
+
+  private onMessage = (channel: string | Buffer, data: string | Buffer): void => {
+    // A shared subscriber connection may carry other channels
+    if (String(channel) !== this.channel) {
+      return;
+    }
+
+    let message: T;
+    try {
+      message = this.serializer.deserialize(data) as T;
+    } catch (error) {
+      this.logger.warn(`RedisPubSub malformed message on ${this.channel}:`, error);
+      return;
+    }
+
+    for (const handler of this.handlers) {
+      Promise.resolve()
+        .then(() => handler(message))
+        .catch((error) => {
+          this.logger.warn(`RedisPubSub handler error on ${this.channel}:`, error);
+        });
+    }
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Receives published messages; may be async
+ */
+export type PubSubHandler<T> = (message: T) => void | Promise<void>;
+
+/**
+ * Broadcast channel between processes sharing a cache
+ * Each instance is bound to one channel; publishers also receive their own
+ * messages, so payloads should carry an origin to skip them.
+ */
+export interface PubSub<T> {
+  publish(message: T): Promise<void>;
+  subscribe(handler: PubSubHandler<T>): Promise<() => Promise<void>>; // Resolves to unsubscribe
+  close?(): Promise<void>;
+}
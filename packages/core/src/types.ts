@@ -91,9 +91,16 @@ export interface AppSchema {
 }
 
 export interface InsightsEvent {
-  shapeId: string;
-  eventType: 'hit' | 'miss' | 'evict';
+  shapeId: string; // Empty for 'fallback' events without a shape
+  eventType: 'hit' | 'miss' | 'evict' | 'fallback';
   timestamp: number;
+  stale?: boolean; // 'hit' served past its fresh window (stale-while-revalidate)
+  fallback?: {
+    phase: 'read' | 'write';
+    model: string;
+    action: string; // What was done instead, e.g. 'executing without cache'
+    error: { code?: string; message: string };
+  };
   dependenciesSummary?: {
     modelCount: number;
     recordCount: number;
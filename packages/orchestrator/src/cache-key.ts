@@ -0,0 +1,36 @@
+import { createHash } from 'crypto';
+import type { AppSchema } from '@includekit/core';
+
+export interface KeyNamespaceInput {
+  schema: AppSchema;
+  engineVersion: { core: string; contract: string; abi: string };
+  buildId?: string;
+}
+
+/**
+ * Prefix for cache keys, derived from everything that can change what a
+ * cached entry means: the schema, the engine version and the app build
+ *
+ * Entries written under another namespace are never read, so after a
+ * rollout the old ones are left for TTL to reap. The result is stable across
+ * restarts, so persistent caches keep their entries when nothing changed.
+ */
+export function computeKeyNamespace({ schema, engineVersion, buildId }: KeyNamespaceInput): string {
+  const json = JSON.stringify(canonicalize({ schema, engineVersion, buildId: buildId ?? null }));
+  return createHash('sha256').update(json).digest('hex').slice(0, 12) + ':';
+}
+
+/**
+ * Sort object keys so equivalent schemas hash equally
+ */
+function canonicalize(value: any): any {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    const out: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      if (value[key] !== undefined) out[key] = canonicalize(value[key]);
+    }
+    return out;
+  }
+  return value;
+}
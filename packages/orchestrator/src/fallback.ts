@@ -0,0 +1,30 @@
+import type { Mutation } from '@includekit/core';
+
+/**
+ * What to do when the engine throws (e.g. QUERY_INVALID for a model missing
+ * from a partial schema, or UNSUPPORTED_OPERATOR)
+ */
+export interface EngineFallbackOptions {
+  /**
+   * bypass: run the query without the cache (nothing cached or tracked)
+   * throw: fail the read
+   * Default: 'bypass'
+   */
+  reads?: 'bypass' | 'throw';
+  /**
+   * flush-model: evict every shape that reads a written model, clearing the
+   * cache if the engine rejects that too
+   * clear: clear the whole cache
+   * throw: fail the write before it runs
+   * Default: 'flush-model'
+   */
+  writes?: 'flush-model' | 'clear' | 'throw';
+}
+
+/**
+ * A mutation that may have changed any record of the given models
+ * Engines can't rule any shape reading these models out, so they evict all of them.
+ */
+export function modelWideMutation(models: string[]): Mutation {
+  return { changes: models.map((model) => ({ action: 'update', model })) };
+}
@@ -7,9 +7,21 @@
 // Core orchestration
 export { withORM } from './orchestrator';
 export type { OrchestratorOptions } from './orchestrator';
+export type { CacheStats, StatsCounters, LatencyHistogram } from './stats';
+export type { CachePolicies, CachePolicy, CacheRule } from './policy';
+export { modelWideMutation } from './fallback';
+export type { EngineFallbackOptions } from './fallback';
 
 // Interfaces for mappers
-export type { CachingService } from './types';
+export type {
+  CachingService,
+  ReadParams,
+  WriteParams,
+  ReadCacheOptions,
+  QueryCacheArg,
+  InvalidationMessage,
+  CacheHealth,
+} from './types';
 export type { ORMMapper } from './mapper-interface';
 
 // Utilities
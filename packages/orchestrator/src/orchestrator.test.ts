@@ -0,0 +1,523 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  FileCache,
+  MemoryLRU,
+  ReferenceEngine,
+  TieredCache,
+  type AppSchema,
+  type Mutation,
+  type Statement,
+} from '@includekit/core';
+import { withORM, type OrchestratorOptions } from './orchestrator';
+import type { CachingService, ReadParams } from './types';
+import type { ORMMapper } from './mapper-interface';
+
+interface Post {
+  id: string;
+  title: string;
+}
+
+const schema: AppSchema = {
+  version: 1,
+  models: [
+    { name: 'Post', id: { kind: 'string' }, relations: [] },
+    { name: 'Tag', id: { kind: 'string' }, relations: [] },
+  ],
+} as AppSchema;
+
+const statement: Statement = {
+  model: 'Post',
+  where: { conditions: [{ field: 'id', op: 'eq', value: 'p1' }] },
+} as Statement;
+
+const tags: Statement = { model: 'Tag' } as Statement;
+
+const mutation: Mutation = {
+  changes: [{ action: 'update', model: 'Post', id: 'p1', sets: { title: 'v2' } }],
+} as Mutation;
+
+const silent = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const destroyers: Array<() => Promise<void> | void> = [];
+
+afterEach(async () => {
+  await Promise.all(destroyers.splice(0).map((destroy) => destroy()));
+});
+
+/**
+ * Orchestrator over a fake ORM; the caching service is driven directly
+ */
+async function setup(options: Partial<OrchestratorOptions<object>> = {}) {
+  let service!: CachingService;
+  const mapper = {
+    extendClient: (client: object, cachingService: CachingService) => {
+      service = cachingService;
+      return client;
+    },
+  } as unknown as ORMMapper<object, unknown, unknown>;
+
+  const cache = options.cache ?? new MemoryLRU<any>({ enableBackgroundCleanup: false });
+  const engine = options.engine ?? new ReferenceEngine();
+  const client: any = await withORM(
+    {},
+    { schema: { json: schema }, logger: silent, mapper, ...options, cache, engine }
+  );
+  destroyers.push(
+    () => client.__includekit_destroy(),
+    () => (cache as { destroy?: () => void }).destroy?.()
+  );
+
+  const db = { title: 'v1', reads: 0 };
+  return {
+    service,
+    client,
+    cache,
+    engine,
+    db,
+    read: (params: Partial<ReadParams<Post[]>> = {}) =>
+      service.executeRead<Post[]>({
+        statement,
+        execute: async () => {
+          db.reads++;
+          return [{ id: 'p1', title: db.title }];
+        },
+        ...params,
+      }),
+    write: () =>
+      service.executeWrite({
+        mutation,
+        execute: async () => {
+          db.title = 'v2';
+          return 1;
+        },
+      }),
+  };
+}
+
+describe('withORM', () => {
+  describe('cache availability', () => {
+    it('serves TieredCache L1 hits while L2 is down, without filling', async () => {
+      const l2 = new MemoryLRU<any>({ enableBackgroundCleanup: false });
+      const cache = new TieredCache<any>({
+        l2,
+        l1: { enableBackgroundCleanup: false },
+        logger: silent,
+      });
+      destroyers.push(() => l2.destroy());
+      const { client, read, db } = await setup({ cache });
+
+      await read(); // Cached in both tiers
+      let available = false;
+      Object.assign(l2, { isAvailable: () => available });
+      await l2.clear();
+
+      expect(client.__includekit_getCacheHealth().available).toBe(false);
+      expect((await read())[0].title).toBe('v1');
+      expect(db.reads).toBe(1);
+
+      await cache.clear();
+      await read();
+      expect(db.reads).toBe(2);
+      expect(cache.size()).toBe(0); // Not filled while L2 is down
+
+      available = true;
+      await read();
+      expect(cache.size()).toBe(1);
+    });
+  });
+
+  describe('engine fallback', () => {
+    const comments = { model: 'Comment' } as Statement; // Missing from the schema
+
+    it('answers reads the engine rejects from the database, uncached', async () => {
+      const emit = vi.fn();
+      const { client, cache, read, db } = await setup({ insights: { emit } });
+
+      expect(await read({ statement: comments })).toEqual([{ id: 'p1', title: 'v1' }]);
+      await read({ statement: comments });
+
+      expect(db.reads).toBe(2);
+      expect(cache.size?.()).toBe(0);
+      expect(client.__includekit_getCacheStats().byModel.Comment.fallbacks).toBe(2);
+      expect(emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'fallback',
+          fallback: {
+            phase: 'read',
+            model: 'Comment',
+            action: 'executing without cache',
+            error: { code: 'QUERY_INVALID', message: expect.stringContaining('Comment') },
+          },
+        })
+      );
+      expect(silent.warn).toHaveBeenCalledWith(
+        'IncludeKit engine error on Comment read; executing without cache:',
+        expect.any(Error)
+      );
+    });
+
+    it("returns results the engine can't track without caching them", async () => {
+      const { client, cache, engine, read, db } = await setup();
+      vi.spyOn(engine, 'addQuery').mockRejectedValue(new Error('tracking failed'));
+
+      await read();
+      await read();
+
+      expect(db.reads).toBe(2);
+      expect(cache.size?.()).toBe(0);
+      expect(client.__includekit_getCacheStats().totals.fallbacks).toBe(2);
+    });
+
+    it("rejects reads with reads: 'throw'", async () => {
+      const { read, db } = await setup({ engineFallback: { reads: 'throw' } });
+
+      await expect(read({ statement: comments })).rejects.toMatchObject({
+        code: 'QUERY_INVALID',
+      });
+      expect(db.reads).toBe(0);
+    });
+
+    it('flushes the written models when the engine rejects a write', async () => {
+      const emit = vi.fn();
+      const { cache, engine, read, write } = await setup({ insights: { emit } });
+      await read();
+      await read({ statement: { ...statement, where: undefined } });
+      await read({ statement: tags, execute: async () => [] });
+      vi.spyOn(engine, 'invalidate').mockRejectedValueOnce(new Error('unsupported'));
+
+      await write();
+
+      expect(cache.size?.()).toBe(1); // Only the Tag shape is left
+      expect((await read())[0].title).toBe('v2');
+      expect(emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'fallback',
+          fallback: expect.objectContaining({ phase: 'write', action: 'flushing Post' }),
+        })
+      );
+    });
+
+    it("clears the cache when the engine can't flush either", async () => {
+      const { client, cache, engine, read, write, db } = await setup();
+      await read();
+      await read({ statement: tags, execute: async () => [] });
+      vi.spyOn(engine, 'invalidate').mockRejectedValue(new Error('engine down'));
+
+      await write();
+
+      expect(db.title).toBe('v2');
+      expect(cache.size?.()).toBe(0);
+      expect(client.__includekit_getCacheStats().totals.fallbacks).toBe(1);
+    });
+
+    it("clears the cache without flushing with writes: 'clear'", async () => {
+      const { cache, engine, read, write } = await setup({ engineFallback: { writes: 'clear' } });
+      await read();
+      await read({ statement: tags, execute: async () => [] });
+      const invalidate = vi
+        .spyOn(engine, 'invalidate')
+        .mockRejectedValueOnce(new Error('unsupported'));
+
+      await write();
+
+      expect(invalidate).toHaveBeenCalledTimes(1);
+      expect(cache.size?.()).toBe(0);
+    });
+
+    it("fails writes before they run with writes: 'throw'", async () => {
+      const { engine, read, write, db } = await setup({ engineFallback: { writes: 'throw' } });
+      await read();
+      vi.spyOn(engine, 'invalidate').mockRejectedValueOnce(new Error('unsupported'));
+
+      await expect(write()).rejects.toThrow('unsupported');
+
+      expect(db.title).toBe('v1');
+      expect((await read())[0].title).toBe('v1');
+      expect(db.reads).toBe(1); // Still cached
+    });
+  });
+
+  describe('manual invalidation', () => {
+    it('evicts the shapes holding the records', async () => {
+      const { client, cache, read, db } = await setup();
+      await read();
+      await read({ statement: tags, execute: async () => [] });
+
+      db.title = 'v2'; // Written outside the ORM
+      await client.__includekit_invalidateRecords('Post', ['p1']);
+
+      expect(cache.size?.()).toBe(1); // Only the Tag shape is left
+      expect((await read())[0].title).toBe('v2');
+      expect(client.__includekit_getCacheStats().totals.evictions).toBe(1);
+    });
+
+    it('evicts every shape reading the models', async () => {
+      const { client, cache, read } = await setup();
+      await read();
+      await read({ statement: { ...statement, where: undefined } });
+      await read({ statement: tags, execute: async () => [] });
+
+      await client.__includekit_invalidateModel('Post');
+      expect(cache.size?.()).toBe(1);
+
+      await client.__includekit_invalidateModel(['Post', 'Tag']);
+      expect(cache.size?.()).toBe(0);
+    });
+
+    it('takes a mutation', async () => {
+      const { client, read, db } = await setup();
+      await read();
+
+      db.title = 'v2';
+      await client.__includekit_invalidate(mutation);
+
+      expect((await read())[0].title).toBe('v2');
+    });
+
+    it('rejects unknown models without clearing the cache', async () => {
+      const { client, cache, read } = await setup();
+      await read();
+
+      await expect(client.__includekit_invalidateModel('Comment')).rejects.toMatchObject({
+        code: 'UNKNOWN_MODEL',
+        details: { models: ['Comment'] },
+      });
+      expect(cache.size?.()).toBe(1);
+    });
+
+    it('evicts on commit when given a transaction', async () => {
+      const { client, cache, read } = await setup();
+      await read();
+      const tx = {};
+      client.__includekit_initTransaction(tx);
+
+      await client.__includekit_invalidateModel('Post', tx);
+      expect(cache.size?.()).toBe(1);
+
+      await client.__includekit_commitTransaction(tx);
+      expect(cache.size?.()).toBe(0);
+    });
+
+    it('evicts nothing when the transaction rolls back', async () => {
+      const { client, cache, read } = await setup();
+      await read();
+      const tx = {};
+      client.__includekit_initTransaction(tx);
+
+      await client.__includekit_invalidateRecords('Post', ['p1'], tx);
+      await client.__includekit_rollbackTransaction(tx);
+
+      expect(cache.size?.()).toBe(1);
+    });
+
+    it('evicts once a bulk scope ends', async () => {
+      const { client, cache, read } = await setup();
+      await read();
+
+      await client.__includekit_bulk(async () => {
+        await client.__includekit_invalidateRecords('Post', ['p1']);
+        expect(cache.size?.()).toBe(1);
+      });
+
+      expect(cache.size?.()).toBe(0);
+    });
+  });
+
+  describe('persisted entries', () => {
+    async function tempPath() {
+      const dir = await mkdtemp(join(tmpdir(), 'includekit-orchestrator-'));
+      destroyers.push(() => rm(dir, { recursive: true, force: true }));
+      return join(dir, 'cache.jsonl');
+    }
+
+    it('serves FileCache entries from an earlier process', async () => {
+      const path = await tempPath();
+      const first = await setup({ cache: new FileCache<any>({ path, logger: silent }) });
+      await first.read();
+      await first.client.__includekit_destroy();
+      await (first.cache as FileCache<any>).destroy(); // Process exits
+
+      const second = await setup({ cache: new FileCache<any>({ path, logger: silent }) });
+
+      expect((await second.read())[0].title).toBe('v1');
+      expect(second.db.reads).toBe(0);
+    });
+
+    it('registers entries of a wrapped FileCache so writes evict them before any hit', async () => {
+      const path = await tempPath();
+      const first = await setup({ cache: new FileCache<any>({ path, logger: silent }) });
+      await first.read();
+      const { keyNamespace } = first.client.__includekit_getCacheHealth();
+      await first.cache.set(`${keyNamespace}legacy`, { result: [] }, 60000); // No shape
+      await first.client.__includekit_destroy();
+      await (first.cache as FileCache<any>).destroy();
+
+      const l2 = new FileCache<any>({ path, logger: silent });
+      destroyers.push(() => l2.destroy());
+      const second = await setup({
+        cache: new TieredCache<any>({ l2, l1: { enableBackgroundCleanup: false }, logger: silent }),
+      });
+      expect(await l2.keys()).toHaveLength(1); // The entry without a shape is deleted
+
+      await second.write();
+
+      expect(await l2.keys()).toEqual([]);
+      expect((await second.read())[0].title).toBe('v2');
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    it('serves a stale entry once and refreshes it in the background', async () => {
+      const emit = vi.fn();
+      const { read, db } = await setup({
+        staleWhileRevalidateMs: 60000,
+        insights: { emit },
+      });
+      await read({ cache: { ttlMs: 5 } }); // Refreshes get the default TTL
+      db.title = 'v2'; // Changed behind the cache's back
+      await sleep(10);
+
+      const [first, second] = await Promise.all([read(), read()]);
+
+      expect([first[0].title, second[0].title]).toEqual(['v1', 'v1']);
+      expect(emit).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'hit', stale: true }));
+      await vi.waitFor(() => expect(db.reads).toBe(2)); // One refresh for both
+      expect((await read())[0].title).toBe('v2');
+      expect(db.reads).toBe(2);
+    });
+
+    it("doesn't serve entries past the stale window", async () => {
+      const { read, db } = await setup({ defaultTtlMs: 5, staleWhileRevalidateMs: 5 });
+      await read();
+      db.title = 'v2';
+      await sleep(15);
+
+      expect((await read())[0].title).toBe('v2');
+      expect(db.reads).toBe(2);
+    });
+
+    it('never serves an evicted entry, however stale the window', async () => {
+      const { read, write } = await setup({ defaultTtlMs: 60000, staleWhileRevalidateMs: 60000 });
+      await read();
+
+      await write();
+
+      expect((await read())[0].title).toBe('v2');
+    });
+
+    it('applies per-query windows over the defaults', async () => {
+      const { read, db } = await setup();
+      await read({ cache: { ttlMs: 5, staleWhileRevalidateMs: 60000 } });
+      db.title = 'v2';
+      await sleep(10);
+
+      expect((await read())[0].title).toBe('v1');
+      await vi.waitFor(() => expect(db.reads).toBe(2));
+    });
+
+    it("doesn't re-cache a refresh that overlapped a write", async () => {
+      const { read, write, cache, db } = await setup({
+        defaultTtlMs: 5,
+        staleWhileRevalidateMs: 60000,
+      });
+      await read();
+      await sleep(10);
+      let release!: () => void;
+      const held = new Promise<void>((resolve) => (release = resolve));
+
+      await read({
+        execute: async () => {
+          db.reads++;
+          const title = db.title;
+          await held;
+          return [{ id: 'p1', title }];
+        },
+      }); // Stale hit; the refresh reads v1 and waits
+      await write();
+      release();
+      await sleep(5); // Let the refresh finish
+
+      expect(db.reads).toBe(2);
+      expect(cache.size?.()).toBe(0);
+      expect((await read())[0].title).toBe('v2');
+    });
+  });
+
+  describe('stats', () => {
+    it('counts reads, writes and evictions by model and operation', async () => {
+      const { client, read, write, db } = await setup();
+      let release!: () => void;
+      const held = new Promise<void>((resolve) => (release = resolve));
+      const slow = read({
+        operation: 'findUnique',
+        execute: async () => {
+          db.reads++;
+          await held;
+          return [{ id: 'p1', title: db.title }];
+        },
+      });
+      const joined = read({ operation: 'findFirst' });
+      release();
+      await Promise.all([slow, joined]);
+      await read({ operation: 'findUnique' });
+      await read({ operation: 'findMany', cache: { mode: 'bypass' } });
+      await write();
+      await expect(
+        read({
+          operation: 'findMany',
+          execute: () => Promise.reject(new Error('db down')),
+        })
+      ).rejects.toThrow('db down');
+
+      const stats = client.__includekit_getCacheStats();
+      expect(stats.totals).toMatchObject({
+        misses: 2,
+        joins: 1,
+        hits: 1,
+        bypasses: 1,
+        evictions: 1,
+        errors: 1,
+      });
+      expect(stats.hitRate).toBe(2 / 4);
+      expect(stats.byModel.Post.misses).toBe(2);
+      expect(stats.byOperation.findUnique).toMatchObject({ misses: 1, hits: 1, evictions: 1 });
+      expect(stats.byOperation.findFirst).toMatchObject({ joins: 1 });
+      expect(stats.byOperation.findMany).toMatchObject({ bypasses: 1, misses: 1, errors: 1 });
+      expect(stats.latency.hit.count).toBe(1);
+      expect(stats.latency.db.count).toBe(1); // The failed query isn't timed
+    });
+
+    it('counts stale hits and background refreshes', async () => {
+      const { client, read, db } = await setup({ defaultTtlMs: 5, staleWhileRevalidateMs: 60000 });
+      await read();
+      await sleep(10);
+
+      await read();
+      await vi.waitFor(() => expect(db.reads).toBe(2));
+
+      expect(client.__includekit_getCacheStats().totals).toMatchObject({
+        misses: 1,
+        hits: 1,
+        staleHits: 1,
+        refreshes: 1,
+      });
+    });
+
+    it('resets counters and returns the last snapshot', async () => {
+      const { client, read } = await setup();
+      await read();
+
+      const before = client.__includekit_resetCacheStats();
+      const after = client.__includekit_getCacheStats();
+
+      expect(before).toMatchObject({ size: 1, totals: { misses: 1 } });
+      expect(after).toMatchObject({ size: 1, hitRate: 0, totals: { misses: 0 }, byModel: {} });
+      expect(after.since).toBeGreaterThanOrEqual(before.since);
+    });
+  });
+});
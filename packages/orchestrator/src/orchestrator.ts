@@ -1,18 +1,72 @@
-import { loadEngine, type Engine, type Cache, type InsightsEvent } from '@includekit/core';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import {
+  loadEngine,
+  consoleLogger,
+  IncludeKitError,
+  TimeoutError,
+  invalidateBatch,
+  type Engine,
+  type Cache,
+  type Dependencies,
+  type InsightsEvent,
+  type Logger,
+  type Mutation,
+  type PubSub,
+} from '@includekit/core';
 import { loadSchema, type SchemaConfig } from './schema';
-import type { CachingService } from './types';
+import type {
+  CacheHealth,
+  CachingService,
+  InvalidationMessage,
+  ReadParams,
+  WriteParams,
+} from './types';
 import type { ORMMapper } from './mapper-interface';
+import { StatsCollector } from './stats';
+import { computeKeyNamespace } from './cache-key';
+import { createPolicyResolver, resultSize, type CachePolicies } from './policy';
+import { WriteTracker, mutationModels } from './write-tracker';
+import { modelWideMutation, type EngineFallbackOptions } from './fallback';
+
+// Bound on the per-shape bookkeeping in withORM; the least recently used
+// shapes are dropped first (a dropped tracked shape is re-added on its next hit)
+const MAX_TRACKED_SHAPES = 10000;
+
+function remember<K, V>(map: Map<K, V>, key: K, value: V): void {
+  map.delete(key); // Re-insert as most recent
+  map.set(key, value);
+  if (map.size > MAX_TRACKED_SHAPES) {
+    map.delete(map.keys().next().value as K);
+  }
+}
 
 export interface OrchestratorOptions<TClient> {
   schema: SchemaConfig;
   cache: Cache<any>;
   defaultTtlMs?: number; // Default: 300000 (5 minutes)
+  staleWhileRevalidateMs?: number; // Default: 0 (expired entries are never served)
   singleflightTimeoutMs?: number; // Default: 30000 (30 seconds)
   engine?: Engine;
   mapper: ORMMapper<TClient, any, any>;
   insights?: {
     emit?: (event: InsightsEvent) => void;
   };
+  /**
+   * Share successful writes with other instances (e.g. RedisPubSub).
+   * Required when several processes share one cache: each engine only
+   * knows the shapes its own process registered.
+   */
+  invalidationBus?: PubSub<InvalidationMessage>;
+  logger?: Logger; // Default: consoleLogger
+  buildId?: string; // App build/release ID; part of the cache key namespace
+  /**
+   * Per-model caching rules, e.g. { Session: { cache: false }, '*': { operations:
+   * { findMany: { maxResultSize: 5000 } } } }. A policy's cache: false wins
+   * over per-query settings; its TTLs apply unless the query sets its own.
+   */
+  policies?: CachePolicies;
+  engineFallback?: EngineFallbackOptions; // Default: { reads: 'bypass', writes: 'flush-model' }
 }
 
 /**
@@ -32,154 +86,622 @@ export async function withORM<TClient>(
   const schema = await loadSchema(options.schema);
 
   // 2. Initialize engine
-  const engine = options.engine || (await loadEngine('./core.wasm'));
+  const engine = options.engine || (await loadEngine());
   await engine.setSchema(schema);
 
+  // Cache keys are namespaced by schema, engine version and build, so a
+  // deploy that changes any of them never reads entries from the old one
+  const keyNamespace = computeKeyNamespace({
+    schema,
+    engineVersion: await engine.version(),
+    buildId: options.buildId,
+  });
+  const cacheKey = (shapeId: string) => keyNamespace + shapeId;
+
   // 3. Setup coordination state
   const inflightRequests = new Map<string, Promise<any>>(); // Singleflight
   const txEvictions = new WeakMap<any, Set<string>>(); // Transaction-local evictions
+  const txMutations = new WeakMap<any, Mutation[]>(); // Transaction writes to publish on commit
+  const bulkScope = new AsyncLocalStorage<Mutation[]>(); // Mutations collected by bulk()
+  const txModels = new WeakMap<any, string[]>(); // Models written in a transaction, until it ends
+  const writes = new WriteTracker(schema); // Keeps reads that overlap a write out of the cache
 
   // Cache stats tracking
-  let totalRequests = 0;
-  let cacheHits = 0;
+  const stats = new StatsCollector();
+  const shapeOrigins = new Map<string, { model: string; operation?: string }>(); // For eviction stats
+  const trackedShapes = new Map<string, true>(); // Shapes this process's engine has seen via addQuery
 
   const defaultTtlMs = options.defaultTtlMs ?? 300000;
+  const defaultStaleMs = options.staleWhileRevalidateMs ?? 0;
   const singleflightTimeout = options.singleflightTimeoutMs ?? 30000;
+  const logger = options.logger ?? consoleLogger;
+  const origin = randomUUID();
+  const resolvePolicy = createPolicyResolver(options.policies);
+  const readFallback = options.engineFallback?.reads ?? 'bypass';
+  const writeFallback = options.engineFallback?.writes ?? 'flush-model';
+
+  const schemaModels = new Set(schema.models.map((m) => m.name));
+  for (const model of Object.keys(options.policies ?? {})) {
+    if (model !== '*' && !schemaModels.has(model)) {
+      logger.warn(`IncludeKit cache policy for unknown model "${model}" is never applied`);
+    }
+  }
+
+  // Fills skip the cache while its backend is down (e.g. an open circuit).
+  // Reads and evictions always go through: the cache decides what to do with
+  // them (CircuitBreakerCache misses and queues deletes for replay, and
+  // TieredCache keeps serving its L1).
+  const cacheAvailable = () => options.cache.isAvailable?.() ?? true;
+
+  // Delete evicted shapes from cache and report them
+  const evictShapes = async (shapeIds: Iterable<string>): Promise<void> => {
+    const ids = Array.from(shapeIds);
+    if (ids.length === 0) {
+      return;
+    }
+
+    // One round trip when the cache supports batch deletes
+    if (options.cache.delMany) {
+      await options.cache.delMany(ids.map(cacheKey));
+    } else {
+      await Promise.all(ids.map((shapeId) => options.cache.del(cacheKey(shapeId))));
+    }
+    ids.forEach((shapeId) => {
+      const source = shapeOrigins.get(shapeId);
+      stats.record('evictions', source?.model ?? 'unknown', source?.operation);
+      shapeOrigins.delete(shapeId);
+      trackedShapes.delete(shapeId);
+      options.insights?.emit?.({
+        shapeId,
+        eventType: 'evict',
+        timestamp: Date.now(),
+      });
+    });
+  };
+
+  // Log and emit an engine error that the fallback absorbed
+  const reportFallback = (
+    phase: 'read' | 'write',
+    model: string,
+    operation: string | undefined,
+    action: string,
+    error: unknown,
+    shapeId = ''
+  ): void => {
+    stats.record('fallbacks', model, operation);
+    logger.warn(`IncludeKit engine error on ${model} ${phase}; ${action}:`, error);
+    options.insights?.emit?.({
+      shapeId,
+      eventType: 'fallback',
+      timestamp: Date.now(),
+      fallback: {
+        phase,
+        model,
+        action,
+        error: {
+          code: (error as { code?: string })?.code,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      },
+    });
+  };
+
+  // Evict list for writes; if the engine rejects them, fall back to every
+  // shape reading the written models, or to clearing the cache
+  const planEvictions = async (
+    mutations: Mutation[],
+    invalidate: () => Promise<{ evict: string[] }>,
+    operation?: string
+  ): Promise<{ evict: string[]; clear: boolean }> => {
+    try {
+      const { evict } = await invalidate();
+      return { evict, clear: false };
+    } catch (error) {
+      if (writeFallback === 'throw') {
+        throw error;
+      }
+
+      const models = Array.from(new Set(mutations.flatMap(mutationModels)));
+      const model = models[0] ?? 'unknown';
+      if (writeFallback === 'flush-model') {
+        try {
+          const { evict } = await engine.invalidate(modelWideMutation(models));
+          reportFallback('write', model, operation, `flushing ${models.join(', ')}`, error);
+          return { evict, clear: false };
+        } catch {
+          // The engine can't flush either; clear below
+        }
+      }
+      reportFallback('write', model, operation, 'clearing the cache', error);
+      return { evict: [], clear: true };
+    }
+  };
+
+  const clearCache = async (): Promise<void> => {
+    if (options.cache.clear) {
+      await options.cache.clear();
+    } else {
+      logger.error('IncludeKit cannot clear a cache without clear(); entries may be stale until TTL');
+    }
+  };
+
+  // A restarted engine (e.g. a replaced worker) has lost every tracked shape,
+  // so no write would evict the entries cached so far: clear them, and don't
+  // cache results tracked by the old engine
+  let engineEpoch = 0;
+  const offRestart = engine.onRestart?.((error: Error) => {
+    engineEpoch++;
+    trackedShapes.clear();
+    shapeOrigins.clear();
+    logger.warn('IncludeKit engine restarted; clearing the cache:', error);
+    clearCache().catch((clearError) => {
+      logger.error('IncludeKit cache clear after engine restart failed:', clearError);
+    });
+  });
+
+  // Entries persisted by an earlier process (FileCache) were tracked by an
+  // engine that's gone: register them with this one before serving any, so
+  // writes evict them. Entries that can't be registered are deleted.
+  const restorePersisted = async (): Promise<void> => {
+    if (!options.cache.keys) {
+      return;
+    }
+
+    const keys = (await options.cache.keys()).filter((key) => key.startsWith(keyNamespace));
+    const values = options.cache.getMany
+      ? await options.cache.getMany(keys)
+      : await Promise.all(keys.map((key) => options.cache.get(key)));
+    const untracked: string[] = [];
+    let failure: unknown;
+
+    for (const [i, key] of keys.entries()) {
+      const cached = values[i];
+      if (!cached) continue;
+      if (!cached.shape) {
+        untracked.push(key); // Written before entries stored their query
+        continue;
+      }
+      try {
+        await engine.addQuery({ shape: cached.shape, resultHint: cached.result });
+        remember(trackedShapes, key.slice(keyNamespace.length), true);
+      } catch (error) {
+        failure ??= error;
+        untracked.push(key);
+      }
+    }
+
+    if (untracked.length === 0) {
+      return;
+    }
+    if (failure) {
+      logger.warn(
+        `IncludeKit could not track ${untracked.length} persisted cache entries:`,
+        failure
+      );
+    }
+    if (options.cache.delMany) {
+      await options.cache.delMany(untracked);
+    } else {
+      await Promise.all(untracked.map((key) => options.cache.del(key)));
+    }
+  };
+
+  // Tell other instances about committed writes
+  const publish = async (mutations: Mutation[]): Promise<void> => {
+    if (!options.invalidationBus || mutations.length === 0) {
+      return;
+    }
+
+    try {
+      await options.invalidationBus.publish({ origin, mutations });
+    } catch (error) {
+      // Peers keep their stale entries until TTL; the local write still succeeded
+      logger.warn('IncludeKit invalidation bus publish error:', error);
+    }
+  };
+
+  // Evict the shapes this instance tracks for another instance's writes
+  const unsubscribe = await options.invalidationBus?.subscribe(async (message) => {
+    if (message.origin === origin) {
+      return;
+    }
+
+    try {
+      const { evict, clear } = await planEvictions(message.mutations, () =>
+        invalidateBatch(engine, message.mutations)
+      );
+      if (clear) await clearCache();
+      await evictShapes(evict);
+      writes.bump(message.mutations.flatMap(mutationModels));
+    } catch (error) {
+      logger.error('IncludeKit invalidation bus handler error:', error);
+    }
+  });
 
   // 4. Create caching service (orchestrator owns all coordination)
   const cachingService: CachingService = {
-    async executeRead<T>({ statement, execute, resultHint }): Promise<T> {
-      // Compute shapeId
-      const { shapeId } = await engine.computeShapeId(statement);
+    async executeRead<T>({
+      statement,
+      execute,
+      resultHint,
+      cache,
+      operation,
+    }: ReadParams<T>): Promise<T> {
+      const start = performance.now();
+      const model = statement.model;
+
+      // Straight to the database, nothing cached or tracked
+      const executeDirect = async (): Promise<T> => {
+        try {
+          return await execute();
+        } catch (error) {
+          stats.record('errors', model, operation);
+          throw error;
+        }
+      };
+
+      // cache: false or a denying policy
+      const policy = resolvePolicy(model, operation);
+      if (cache?.mode === 'bypass' || !policy.cache) {
+        stats.record('bypasses', model, operation);
+        return executeDirect();
+      }
+
+      // Compute shapeId; a statement the engine rejects can still be answered
+      // by the database
+      let shapeId: string;
+      try {
+        ({ shapeId } = await engine.computeShapeId(statement));
+      } catch (error) {
+        if (readFallback === 'throw') throw error;
+        reportFallback('read', model, operation, 'executing without cache', error);
+        return executeDirect();
+      }
+      const ttlMs = cache?.ttlMs ?? policy.ttlMs ?? defaultTtlMs;
+      const staleMs =
+        cache?.staleWhileRevalidateMs ?? policy.staleWhileRevalidateMs ?? defaultStaleMs;
+      remember(shapeOrigins, shapeId, { model, operation });
+      const snapshot = writes.snapshot(statement);
+
+      // Execute query (mapper provides this) and cache the result, once per
+      // shape at a time, with timeout protection
+      const load = (background: boolean): Promise<T> => {
+        const epoch = engineEpoch;
+        const executePromise = (async () => {
+          const executeStart = performance.now();
+          const result = await execute();
+          stats.dbLatencyMs(performance.now() - executeStart);
 
-      // Track request
-      totalRequests++;
+          // Too large to cache: return it untracked, and drop the entry a
+          // refresh would otherwise have replaced
+          const size = resultSize(result);
+          if (policy.maxResultSize !== undefined && size > policy.maxResultSize) {
+            logger.debug?.(
+              `IncludeKit not caching ${model} result: ${size} rows > maxResultSize ${policy.maxResultSize}`
+            );
+            if ((background || cache?.mode === 'refresh') && cacheAvailable()) {
+              await options.cache.del(cacheKey(shapeId));
+            }
+            return result;
+          }
+
+          // Track in engine; an untracked result must not be cached, since
+          // no write would evict it
+          let dependencies: Dependencies;
+          try {
+            ({ dependencies } = await engine.addQuery({
+              shape: statement,
+              resultHint: resultHint || (result as any),
+            }));
+          } catch (error) {
+            if (readFallback === 'throw') throw error;
+            reportFallback('read', model, operation, 'returning the result uncached', error, shapeId);
+            return result;
+          }
+          if (engineEpoch !== epoch) {
+            logger.debug?.(`IncludeKit not caching ${model} result: engine restarted`);
+            return result;
+          }
+          remember(trackedShapes, shapeId, true);
+
+          // Cache result; with stale-while-revalidate the entry outlives its
+          // fresh window so it can be served while a refresh runs. A result
+          // that overlapped a write to one of its models may predate it.
+          if (writes.changedSince(snapshot)) {
+            logger.debug?.(`IncludeKit not caching ${model} result: overlapped a write`);
+          } else if (cacheAvailable()) {
+            if (staleMs > 0) {
+              await options.cache.set(
+                cacheKey(shapeId),
+                { result, freshUntil: Date.now() + ttlMs, shape: statement },
+                ttlMs + staleMs
+              );
+            } else {
+              await options.cache.set(cacheKey(shapeId), { result, shape: statement }, ttlMs);
+            }
+          }
+
+          // Emit miss event with dependencies summary
+          if (options.insights?.emit && !background) {
+            const modelCount = Object.keys(dependencies.models || {}).length;
+            const recordCount = Object.values(dependencies.records || {}).reduce(
+              (sum: number, ids) => sum + (Array.isArray(ids) ? ids.length : 0),
+              0
+            );
+
+            options.insights.emit({
+              shapeId,
+              eventType: 'miss',
+              timestamp: Date.now(),
+              dependenciesSummary: {
+                modelCount,
+                recordCount,
+              },
+            });
+          }
+
+          return result;
+        })();
+
+        // Add timeout to prevent memory leaks from hanging promises
+        const timeoutPromise = new Promise<never>((_, reject) => {
+          setTimeout(
+            () =>
+              reject(
+                new TimeoutError(
+                  `Query timeout after ${singleflightTimeout}ms`,
+                  singleflightTimeout,
+                  { details: { shapeId, model: statement.model } }
+                )
+              ),
+            singleflightTimeout
+          );
+        });
+
+        const promise = Promise.race([executePromise, timeoutPromise]);
+
+        stats.record(background ? 'refreshes' : 'misses', model, operation);
+        inflightRequests.set(shapeId, promise);
+        const cleanup = () => {
+          if (inflightRequests.get(shapeId) === promise) {
+            inflightRequests.delete(shapeId);
+          }
+        };
+        promise.then(cleanup, () => {
+          stats.record('errors', model, operation);
+          cleanup();
+        });
+        return promise;
+      };
+
+      // cache: 'refresh' - re-execute and overwrite the entry; don't join a
+      // query that may have started before the caller's last write
+      if (cache?.mode === 'refresh') {
+        return load(false);
+      }
 
       // Check cache
-      const cached = await options.cache.get(shapeId);
+      const cached = await options.cache.get(cacheKey(shapeId));
       if (cached) {
-        cacheHits++;
+        // Entries can outlive the engine that tracked them (persistent or
+        // shared caches across restarts); track them so writes evict them
+        if (!trackedShapes.has(shapeId)) {
+          try {
+            await engine.addQuery({ shape: statement, resultHint: resultHint || cached.result });
+          } catch (error) {
+            if (readFallback === 'throw') throw error;
+            reportFallback('read', model, operation, 'executing without cache', error, shapeId);
+            return executeDirect();
+          }
+        }
+        remember(trackedShapes, shapeId, true);
+
+        const stale = cached.freshUntil !== undefined && Date.now() >= cached.freshUntil;
+        stats.record('hits', model, operation);
+        if (stale) stats.record('staleHits', model, operation);
         options.insights?.emit?.({
           shapeId,
           eventType: 'hit',
           timestamp: Date.now(),
+          ...(stale && { stale }),
         });
+
+        // Serve the stale entry now and refresh it in the background, once.
+        // Evicted entries are deleted from cache, so they are never served.
+        if (stale && !inflightRequests.has(shapeId)) {
+          load(true).catch((error) => {
+            logger.warn(`IncludeKit background refresh failed for ${model}:`, error);
+          });
+        }
+        stats.hitLatencyMs(performance.now() - start);
         return cached.result;
       }
 
       // Singleflight: check if request is in-flight
       if (inflightRequests.has(shapeId)) {
+        stats.record('joins', model, operation);
         return inflightRequests.get(shapeId)!;
       }
 
-      // Execute query (mapper provides this) with timeout protection
-      const executePromise = (async () => {
-        const result = await execute();
-
-        // Track in engine
-        const { dependencies } = await engine.addQuery({
-          shape: statement,
-          resultHint: resultHint || result,
-        });
+      return load(false);
+    },
 
-        // Cache result
-        await options.cache.set(shapeId, { result }, defaultTtlMs);
+    async executeWrite<T>({
+      mutation,
+      execute,
+      txContext,
+      operation,
+    }: WriteParams<T>): Promise<T> {
+      const model = mutation.changes[0]?.model ?? 'unknown';
+      const inTransaction = txContext && txEvictions.has(txContext);
 
-        // Emit miss event with dependencies summary
-        if (options.insights?.emit) {
-          const modelCount = Object.keys(dependencies.models || {}).length;
-          const recordCount = Object.values(dependencies.records || {}).reduce(
-            (sum: number, ids) => sum + (Array.isArray(ids) ? ids.length : 0),
-            0
-          );
+      // The write is in flight from before its evict list is computed until
+      // its evictions are applied (for transactions: until commit/rollback)
+      const models = mutationModels(mutation);
+      writes.begin(models);
+      if (inTransaction) {
+        txModels.get(txContext)?.push(...models);
+      }
 
-          options.insights.emit({
-            shapeId,
-            eventType: 'miss',
-            timestamp: Date.now(),
-            dependenciesSummary: {
-              modelCount,
-              recordCount,
-            },
-          });
+      // Bulk scope: run the write now, invalidate once when the scope ends
+      // (transactions inside the scope keep their own commit/rollback handling)
+      const bulk = bulkScope.getStore();
+      if (bulk && !inTransaction) {
+        let result: T;
+        try {
+          result = await execute();
+        } catch (error) {
+          writes.end(models);
+          stats.record('errors', model, operation);
+          throw error;
         }
-
+        bulk.push(mutation); // Ended when the scope ends
         return result;
-      })();
-
-      // Add timeout to prevent memory leaks from hanging promises
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error(`Query timeout after ${singleflightTimeout}ms`)), singleflightTimeout);
-      });
-
-      const promise = Promise.race([executePromise, timeoutPromise]);
+      }
 
-      inflightRequests.set(shapeId, promise);
       try {
-        return await promise;
-      } finally {
-        inflightRequests.delete(shapeId);
-      }
-    },
+        // Get eviction list BEFORE executing write
+        const { evict, clear } = await planEvictions(
+          [mutation],
+          () => engine.invalidate(mutation),
+          operation
+        );
 
-    async executeWrite<T>({ mutation, execute, txContext }): Promise<T> {
-      // Get eviction list BEFORE executing write
-      const { evict } = await engine.invalidate(mutation);
+        // Execute write (mapper provides this)
+        let result: T;
+        try {
+          result = await execute();
+        } catch (error) {
+          // Write failed - don't evict anything
+          stats.record('errors', model, operation);
+          throw error;
+        }
 
-      // Execute write (mapper provides this)
-      let result: T;
-      try {
-        result = await execute();
-      } catch (error) {
-        // Write failed - don't evict anything
-        throw error;
-      }
+        // Only evict if write succeeded. Clearing can't wait for a commit;
+        // reads of this transaction's models aren't cached until then anyway.
+        if (clear) {
+          await clearCache();
+        }
+        if (inTransaction) {
+          // In transaction: collect evictions for later
+          const pending = txEvictions.get(txContext)!;
+          evict.forEach((shapeId) => pending.add(shapeId));
+          txMutations.get(txContext)?.push(mutation);
+        } else {
+          // Not in transaction (or batch transaction): evict immediately
+          await evictShapes(evict);
+          await publish([mutation]);
+        }
 
-      // Only evict if write succeeded
-      if (txContext && txEvictions.has(txContext)) {
-        // In transaction: collect evictions for later
-        const pending = txEvictions.get(txContext)!;
-        evict.forEach((shapeId) => pending.add(shapeId));
-      } else {
-        // Not in transaction (or batch transaction): evict immediately
-        await Promise.all(
-          evict.map((shapeId) => options.cache.del(shapeId))
-        );
-        evict.forEach((shapeId) => {
-          options.insights?.emit?.({
-            shapeId,
-            eventType: 'evict',
-            timestamp: Date.now(),
-          });
-        });
+        return result;
+      } finally {
+        if (!inTransaction) {
+          writes.end(models);
+        }
       }
-
-      return result;
     },
 
     async commitTransaction(txContext: any): Promise<void> {
-      const pending = txEvictions.get(txContext);
-      if (pending) {
-        await Promise.all(
-          Array.from(pending).map((shapeId) => options.cache.del(shapeId))
-        );
-        pending.forEach((shapeId) => {
-          options.insights?.emit?.({
-            shapeId,
-            eventType: 'evict',
-            timestamp: Date.now(),
-          });
-        });
-        txEvictions.delete(txContext);
+      try {
+        const pending = txEvictions.get(txContext);
+        if (pending) {
+          await evictShapes(pending);
+          txEvictions.delete(txContext);
+        }
+
+        const mutations = txMutations.get(txContext);
+        txMutations.delete(txContext);
+        if (mutations) {
+          await publish(mutations);
+        }
+      } finally {
+        writes.end(txModels.get(txContext) ?? []);
+        txModels.delete(txContext);
       }
     },
 
     async rollbackTransaction(txContext: any): Promise<void> {
       // Just discard collected evictions
       txEvictions.delete(txContext);
+      txMutations.delete(txContext);
+      writes.end(txModels.get(txContext) ?? []);
+      txModels.delete(txContext);
     },
   };
 
+  /**
+   * Run fn with evictions deferred until it settles
+   * Writes that succeeded are invalidated in one engine call and one evict
+   * pass, even if fn throws (those rows are already written). Nested calls
+   * join the outer scope.
+   */
+  const bulk = async <R>(fn: () => Promise<R>): Promise<R> => {
+    if (bulkScope.getStore()) {
+      return fn();
+    }
+
+    const mutations: Mutation[] = [];
+    try {
+      return await bulkScope.run(mutations, fn);
+    } finally {
+      try {
+        if (mutations.length > 0) {
+          const { evict, clear } = await planEvictions(mutations, () =>
+            invalidateBatch(engine, mutations)
+          );
+          if (clear) await clearCache();
+          await evictShapes(evict);
+          await publish(mutations);
+        }
+      } finally {
+        writes.end(mutations.flatMap(mutationModels));
+      }
+    }
+  };
+
+  /**
+   * Invalidate for changes made outside the ORM (raw SQL, other services,
+   * admin scripts)
+   * Goes through executeWrite with nothing to execute, so transactions (pass
+   * their txContext), bulk scopes, the bus and engine fallbacks apply as they
+   * do for ORM writes.
+   */
+  const invalidate = async (mutation: Mutation, txContext?: any): Promise<void> => {
+    if (mutation.changes.length === 0) return;
+
+    // Checked here: an engine rejection would fall back to clearing the cache
+    const unknown = mutationModels(mutation).filter((model) => !schemaModels.has(model));
+    if (unknown.length > 0) {
+      throw new IncludeKitError(
+        'UNKNOWN_MODEL',
+        `Cannot invalidate unknown model(s): ${unknown.join(', ')}`,
+        { details: { models: unknown } }
+      );
+    }
+
+    await cachingService.executeWrite({
+      mutation,
+      execute: async () => undefined,
+      txContext,
+      operation: 'invalidate',
+    });
+  };
+
+  // Evict every shape reading the models
+  const invalidateModel = (models: string | string[], txContext?: any): Promise<void> =>
+    invalidate(modelWideMutation(Array.isArray(models) ? models : [models]), txContext);
+
+  // Evict shapes containing the records, or whose filters they may now match
+  // (composite IDs are passed as arrays)
+  const invalidateRecords = (
+    model: string,
+    ids: Array<string | string[]>,
+    txContext?: any
+  ): Promise<void> =>
+    invalidate({ changes: ids.map((id) => ({ action: 'update', model, id })) }, txContext);
+
+  await restorePersisted();
+
   // 5. Extend client via mapper (mapper uses caching service)
   const extendedClient = options.mapper.extendClient(client, cachingService);
 
@@ -187,17 +709,41 @@ export async function withORM<TClient>(
   return Object.assign(extendedClient as any, {
     __includekit_initTransaction: (txContext: any) => {
       txEvictions.set(txContext, new Set());
+      txMutations.set(txContext, []);
+      txModels.set(txContext, []);
     },
     __includekit_commitTransaction: cachingService.commitTransaction,
     __includekit_rollbackTransaction: cachingService.rollbackTransaction,
-    __includekit_getCacheStats: () => {
-      // Get actual size from cache if available, otherwise use tracked size
-      const actualSize = options.cache.size?.() ?? 0;
-      return {
-        size: actualSize,
-        hitRate: totalRequests > 0 ? cacheHits / totalRequests : 0,
-      };
+    __includekit_getCacheStats: () => stats.snapshot(options.cache.size?.() ?? 0),
+    __includekit_resetCacheStats: () => {
+      // Snapshot and reset together so interval reports don't lose events
+      const snapshot = stats.snapshot(options.cache.size?.() ?? 0);
+      stats.reset();
+      return snapshot;
     },
+    __includekit_getCacheHealth: (): CacheHealth => {
+      const breaker = options.cache.status?.();
+      return { available: cacheAvailable(), keyNamespace, ...(breaker && { breaker }) };
+    },
+    __includekit_bulk: bulk,
+    __includekit_invalidate: invalidate,
+    __includekit_invalidateModel: invalidateModel,
+    __includekit_invalidateRecords: invalidateRecords,
     __includekit_getEngine: () => engine,
+    __includekit_reset: async () => {
+      // Like a restart: nothing cached so far could be evicted any more
+      engineEpoch++;
+      await engine.reset();
+      trackedShapes.clear();
+      shapeOrigins.clear();
+      await clearCache();
+    },
+    __includekit_destroy: async () => {
+      await unsubscribe?.();
+      offRestart?.();
+      trackedShapes.clear();
+      shapeOrigins.clear();
+      await engine.close?.();
+    },
   }) as TClient;
 }
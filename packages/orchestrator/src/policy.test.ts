@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { createPolicyResolver, resultSize } from './policy';
+
+describe('createPolicyResolver', () => {
+  it('allows caching when there are no policies', () => {
+    expect(createPolicyResolver(undefined)('User', 'findMany')).toEqual({ cache: true });
+    expect(createPolicyResolver({})('User')).toEqual({ cache: true });
+  });
+
+  it('applies model policies only to their model', () => {
+    const resolve = createPolicyResolver({ Session: { cache: false }, User: { ttlMs: 1000 } });
+
+    expect(resolve('Session', 'findMany')).toEqual({ cache: false });
+    expect(resolve('User', 'findMany')).toEqual({ cache: true, ttlMs: 1000 });
+    expect(resolve('Post', 'findMany')).toEqual({ cache: true });
+  });
+
+  it('applies operation rules only to their operation', () => {
+    const resolve = createPolicyResolver({
+      Post: { operations: { findMany: { maxResultSize: 100 } } },
+    });
+
+    expect(resolve('Post', 'findMany')).toEqual({ cache: true, maxResultSize: 100 });
+    expect(resolve('Post', 'findUnique')).toEqual({ cache: true });
+    expect(resolve('Post')).toEqual({ cache: true });
+  });
+
+  it('prefers model + operation, then model, then * + operation, then *', () => {
+    const resolve = createPolicyResolver({
+      '*': {
+        ttlMs: 1,
+        staleWhileRevalidateMs: 1,
+        maxResultSize: 1,
+        operations: { findMany: { ttlMs: 2, staleWhileRevalidateMs: 2, maxResultSize: 2 } },
+      },
+      Post: {
+        ttlMs: 3,
+        staleWhileRevalidateMs: 3,
+        operations: { findMany: { ttlMs: 4 } },
+      },
+    });
+
+    expect(resolve('Post', 'findMany')).toEqual({
+      cache: true,
+      ttlMs: 4, // Model + operation
+      staleWhileRevalidateMs: 3, // Model
+      maxResultSize: 2, // * + operation
+    });
+    expect(resolve('Post', 'findFirst')).toEqual({
+      cache: true,
+      ttlMs: 3,
+      staleWhileRevalidateMs: 3,
+      maxResultSize: 1,
+    });
+    expect(resolve('User', 'findMany')).toEqual({
+      cache: true,
+      ttlMs: 2,
+      staleWhileRevalidateMs: 2,
+      maxResultSize: 2,
+    });
+    expect(resolve('User', 'findFirst')).toEqual({
+      cache: true,
+      ttlMs: 1,
+      staleWhileRevalidateMs: 1,
+      maxResultSize: 1,
+    });
+  });
+
+  it('lets a more specific rule re-enable caching', () => {
+    const resolve = createPolicyResolver({
+      '*': { cache: false },
+      Post: { cache: true, operations: { count: { cache: false } } },
+    });
+
+    expect(resolve('User', 'findMany').cache).toBe(false);
+    expect(resolve('Post', 'findMany').cache).toBe(true);
+    expect(resolve('Post', 'count').cache).toBe(false);
+  });
+
+  it('treats undefined fields as unset', () => {
+    const resolve = createPolicyResolver({
+      '*': { cache: false, ttlMs: 1000 },
+      Post: { cache: undefined, ttlMs: undefined },
+    });
+
+    expect(resolve('Post', 'findMany')).toEqual({ cache: false, ttlMs: 1000 });
+  });
+
+  it('memoizes resolved policies', () => {
+    const policies = { Post: { ttlMs: 1000 } };
+    const resolve = createPolicyResolver(policies);
+
+    const first = resolve('Post', 'findMany');
+    policies.Post.ttlMs = 5;
+
+    expect(resolve('Post', 'findMany')).toBe(first);
+    expect(first.ttlMs).toBe(1000);
+  });
+});
+
+describe('resultSize', () => {
+  it('counts rows', () => {
+    expect(resultSize([{ id: 1 }, { id: 2 }])).toBe(2);
+    expect(resultSize([])).toBe(0);
+    expect(resultSize({ id: 1 })).toBe(1);
+    expect(resultSize(3)).toBe(1);
+    expect(resultSize(null)).toBe(0);
+    expect(resultSize(undefined)).toBe(0);
+  });
+});
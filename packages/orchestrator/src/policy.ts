@@ -0,0 +1,78 @@
+/**
+ * Caching rules for one model (or, under operations, one ORM operation)
+ * Unset fields fall through to the next less specific rule.
+ */
+export interface CacheRule {
+  cache?: boolean; // false: never cache; reads go straight to the database
+  ttlMs?: number; // Overrides defaultTtlMs
+  staleWhileRevalidateMs?: number; // Overrides the orchestrator default
+  maxResultSize?: number; // Results with more rows are returned but not cached
+}
+
+export interface CachePolicy extends CacheRule {
+  operations?: Record<string, CacheRule>; // Keyed by ORM operation, e.g. 'findMany'
+}
+
+/**
+ * Policies keyed by model name (statement.model); '*' applies to every model
+ *
+ * Precedence, most specific first: model + operation, model, '*' +
+ * operation, '*'.
+ */
+export type CachePolicies = Record<string, CachePolicy>;
+
+export interface ResolvedCachePolicy {
+  cache: boolean;
+  ttlMs?: number;
+  staleWhileRevalidateMs?: number;
+  maxResultSize?: number;
+}
+
+const ALLOW_ALL: ResolvedCachePolicy = { cache: true };
+
+/**
+ * Build a lookup that merges policies for a model and operation
+ * Results are memoized; policies are read once, at creation.
+ */
+export function createPolicyResolver(
+  policies: CachePolicies | undefined
+): (model: string, operation?: string) => ResolvedCachePolicy {
+  if (!policies || Object.keys(policies).length === 0) {
+    return () => ALLOW_ALL;
+  }
+
+  const resolved = new Map<string, ResolvedCachePolicy>();
+  return (model, operation) => {
+    const key = `${model}\0${operation ?? ''}`;
+    let policy = resolved.get(key);
+    if (!policy) {
+      const wildcard = policies['*'];
+      const own = policies[model];
+      policy = { cache: true };
+      for (const rule of [
+        wildcard,
+        operation ? wildcard?.operations?.[operation] : undefined,
+        own,
+        operation ? own?.operations?.[operation] : undefined,
+      ]) {
+        if (!rule) continue;
+        if (rule.cache !== undefined) policy.cache = rule.cache;
+        if (rule.ttlMs !== undefined) policy.ttlMs = rule.ttlMs;
+        if (rule.staleWhileRevalidateMs !== undefined) {
+          policy.staleWhileRevalidateMs = rule.staleWhileRevalidateMs;
+        }
+        if (rule.maxResultSize !== undefined) policy.maxResultSize = rule.maxResultSize;
+      }
+      resolved.set(key, policy);
+    }
+    return policy;
+  };
+}
+
+/**
+ * Rows in a query result: array length, 0 for null, otherwise 1
+ */
+export function resultSize(result: unknown): number {
+  if (Array.isArray(result)) return result.length;
+  return result === null || result === undefined ? 0 : 1;
+}
@@ -1,5 +1,5 @@
 import { readFile } from 'fs/promises';
-import type { AppSchema } from '@includekit/core';
+import { SchemaError, type AppSchema } from '@includekit/core';
 
 export interface SchemaConfig {
   file?: string;
@@ -15,11 +15,25 @@ export async function loadSchema(config: SchemaConfig): Promise<AppSchema> {
 
   // Priority 1: Load from file
   if (config.file) {
+    let content: string;
+    try {
+      content = await readFile(config.file, 'utf-8');
+    } catch (error: any) {
+      throw new SchemaError(
+        'SCHEMA_NOT_FOUND',
+        `Failed to load schema from ${config.file}: ${error.message}`,
+        { cause: error, details: { file: config.file } }
+      );
+    }
+
     try {
-      const content = await readFile(config.file, 'utf-8');
       schema = JSON.parse(content);
     } catch (error: any) {
-      throw new Error(`Failed to load schema from ${config.file}: ${error.message}`);
+      throw new SchemaError(
+        'SCHEMA_PARSE_FAILED',
+        `Failed to load schema from ${config.file}: ${error.message}`,
+        { cause: error, details: { file: config.file } }
+      );
     }
   }
   // Priority 2: Use inline JSON
@@ -28,7 +42,8 @@ export async function loadSchema(config: SchemaConfig): Promise<AppSchema> {
   }
   // No schema provided
   else {
-    throw new Error(
+    throw new SchemaError(
+      'SCHEMA_NOT_FOUND',
       'No schema provided. Specify schema.file or schema.json. ' +
         'DMMF introspection not yet supported.'
     );
@@ -36,29 +51,41 @@ export async function loadSchema(config: SchemaConfig): Promise<AppSchema> {
 
   // Basic validation before passing to engine
   if (!schema.version || typeof schema.version !== 'number') {
-    throw new Error('Invalid schema: missing or invalid version field');
+    throw new SchemaError('SCHEMA_INVALID', 'Invalid schema: missing or invalid version field', {
+      details: { field: 'version' },
+    });
   }
 
   if (!Array.isArray(schema.models) || schema.models.length === 0) {
-    throw new Error('Invalid schema: models must be a non-empty array');
+    throw new SchemaError('SCHEMA_INVALID', 'Invalid schema: models must be a non-empty array', {
+      details: { field: 'models' },
+    });
   }
 
   // Validate each model has required fields
   for (const model of schema.models) {
     if (!model.name || typeof model.name !== 'string') {
-      throw new Error(`Invalid schema: model missing name`);
+      throw new SchemaError('SCHEMA_INVALID', `Invalid schema: model missing name`, {
+        details: { field: 'name' },
+      });
     }
 
     if (!model.id || !model.id.kind) {
-      throw new Error(`Invalid schema: model '${model.name}' missing id config`);
+      throw new SchemaError(
+        'SCHEMA_INVALID',
+        `Invalid schema: model '${model.name}' missing id config`,
+        { details: { model: model.name, field: 'id' } }
+      );
     }
 
     if (
       model.id.kind === 'composite' &&
       (!model.id.fields || model.id.fields.length === 0)
     ) {
-      throw new Error(
-        `Invalid schema: model '${model.name}' has composite id but no fields`
+      throw new SchemaError(
+        'SCHEMA_INVALID',
+        `Invalid schema: model '${model.name}' has composite id but no fields`,
+        { details: { model: model.name, field: 'id.fields' } }
       );
     }
   }
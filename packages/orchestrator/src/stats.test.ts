@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { StatsCollector } from './stats';
+
+describe('StatsCollector', () => {
+  it('reports a zero hit rate and empty histograms before any read', () => {
+    const stats = new StatsCollector().snapshot(0);
+
+    expect(stats.hitRate).toBe(0);
+    expect(stats.latency.hit).toMatchObject({ count: 0, minMs: 0, maxMs: 0, p50: 0, p99: 0 });
+  });
+
+  it('counts joins as served without a query, and bypasses not at all', () => {
+    const stats = new StatsCollector();
+    stats.record('hits', 'Post', 'findMany', 2);
+    stats.record('joins', 'Post', undefined);
+    stats.record('misses', 'User', 'findUnique');
+    stats.record('bypasses', 'User', 'findUnique', 5);
+
+    const snapshot = stats.snapshot(3);
+    expect(snapshot.hitRate).toBe(3 / 4);
+    expect(snapshot.byModel.User).toMatchObject({ misses: 1, bypasses: 5 });
+    expect(snapshot.byOperation.unknown).toMatchObject({ joins: 1 });
+  });
+
+  it('buckets latencies and reports percentiles as bucket upper bounds', () => {
+    const stats = new StatsCollector();
+    [0.5, 0.8, 3, 4, 7, 20, 30, 40, 90, 20000].forEach((ms) => stats.dbLatencyMs(ms));
+
+    const db = stats.snapshot(0).latency.db;
+    expect(db.counts).toEqual([2, 0, 2, 1, 1, 2, 1, 0, 0, 0, 0, 0, 0, 1]);
+    expect(db).toMatchObject({ count: 10, minMs: 0.5, maxMs: 20000, p50: 10, p90: 100 });
+    expect(db.p99).toBe(20000); // Overflow bucket: the largest sample
+    expect(db.sumMs).toBeCloseTo(20195.3);
+  });
+
+  it('caps percentiles at the largest sample', () => {
+    const stats = new StatsCollector();
+    stats.hitLatencyMs(0.2);
+
+    expect(stats.snapshot(0).latency.hit).toMatchObject({ p50: 0.2, p99: 0.2 });
+  });
+});
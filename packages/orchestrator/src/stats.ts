@@ -0,0 +1,175 @@
+/**
+ * Cache outcome counters
+ */
+export interface StatsCounters {
+  hits: number; // Served from cache (including stale hits)
+  staleHits: number; // Served past the fresh window (stale-while-revalidate)
+  misses: number; // Executed against the database
+  joins: number; // Waited on an identical in-flight query (singleflight)
+  bypasses: number; // Skipped the cache (cache: false or a policy); not reads in hitRate
+  refreshes: number; // Background stale-while-revalidate executions
+  fallbacks: number; // Engine errors absorbed by engineFallback
+  evictions: number; // Shapes evicted, by the evicted shape's model and operation
+  errors: number; // Failed reads and writes
+}
+
+/**
+ * Latency distribution in milliseconds
+ * counts[i] holds samples <= bounds[i]; the last count holds the rest
+ */
+export interface LatencyHistogram {
+  bounds: number[];
+  counts: number[];
+  count: number;
+  sumMs: number;
+  minMs: number;
+  maxMs: number;
+  p50: number; // Percentiles are bucket upper bounds (maxMs for the overflow bucket)
+  p90: number;
+  p99: number;
+}
+
+export interface CacheStats {
+  size: number; // Cache entries, if the cache reports it
+  hitRate: number; // (hits + joins) / reads; joins are served without a query of their own
+  since: number; // Epoch ms when counting started (last reset)
+  totals: StatsCounters;
+  byModel: Record<string, StatsCounters>;
+  byOperation: Record<string, StatsCounters>; // ORM operation, e.g. 'findMany'; 'unknown' if not passed
+  latency: {
+    hit: LatencyHistogram; // executeRead duration on cache hits
+    db: LatencyHistogram; // Query execution on misses and refreshes
+  };
+}
+
+const LATENCY_BOUNDS_MS = [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+type Outcome = keyof StatsCounters;
+
+/**
+ * Collects cache statistics for one orchestrator
+ */
+export class StatsCollector {
+  private since = Date.now();
+  private totals = emptyCounters();
+  private byModel = new Map<string, StatsCounters>();
+  private byOperation = new Map<string, StatsCounters>();
+  private hitLatency = new Histogram();
+  private dbLatency = new Histogram();
+
+  record(outcome: Outcome, model: string, operation: string | undefined, count = 1): void {
+    this.totals[outcome] += count;
+    counters(this.byModel, model)[outcome] += count;
+    counters(this.byOperation, operation ?? 'unknown')[outcome] += count;
+  }
+
+  hitLatencyMs(ms: number): void {
+    this.hitLatency.add(ms);
+  }
+
+  dbLatencyMs(ms: number): void {
+    this.dbLatency.add(ms);
+  }
+
+  snapshot(size: number): CacheStats {
+    const { hits, misses, joins } = this.totals;
+    const reads = hits + misses + joins;
+    return {
+      size,
+      hitRate: reads > 0 ? (hits + joins) / reads : 0,
+      since: this.since,
+      totals: { ...this.totals },
+      byModel: toRecord(this.byModel),
+      byOperation: toRecord(this.byOperation),
+      latency: {
+        hit: this.hitLatency.snapshot(),
+        db: this.dbLatency.snapshot(),
+      },
+    };
+  }
+
+  reset(): void {
+    this.since = Date.now();
+    this.totals = emptyCounters();
+    this.byModel.clear();
+    this.byOperation.clear();
+    this.hitLatency = new Histogram();
+    this.dbLatency = new Histogram();
+  }
+}
+
+class Histogram {
+  private readonly counts = new Array<number>(LATENCY_BOUNDS_MS.length + 1).fill(0);
+  private count = 0;
+  private sumMs = 0;
+  private minMs = Infinity;
+  private maxMs = 0;
+
+  add(ms: number): void {
+    const index = LATENCY_BOUNDS_MS.findIndex((bound) => ms <= bound);
+    this.counts[index === -1 ? LATENCY_BOUNDS_MS.length : index]++;
+    this.count++;
+    this.sumMs += ms;
+    this.minMs = Math.min(this.minMs, ms);
+    this.maxMs = Math.max(this.maxMs, ms);
+  }
+
+  snapshot(): LatencyHistogram {
+    return {
+      bounds: [...LATENCY_BOUNDS_MS],
+      counts: [...this.counts],
+      count: this.count,
+      sumMs: this.sumMs,
+      minMs: this.count > 0 ? this.minMs : 0,
+      maxMs: this.maxMs,
+      p50: this.percentile(0.5),
+      p90: this.percentile(0.9),
+      p99: this.percentile(0.99),
+    };
+  }
+
+  private percentile(p: number): number {
+    if (this.count === 0) return 0;
+
+    const rank = Math.ceil(p * this.count);
+    let seen = 0;
+    for (let i = 0; i < this.counts.length; i++) {
+      seen += this.counts[i];
+      if (seen >= rank) {
+        return i < LATENCY_BOUNDS_MS.length ? Math.min(LATENCY_BOUNDS_MS[i], this.maxMs) : this.maxMs;
+      }
+    }
+    return this.maxMs;
+  }
+}
+
+function emptyCounters(): StatsCounters {
+  return {
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    joins: 0,
+    bypasses: 0,
+    refreshes: 0,
+    fallbacks: 0,
+    evictions: 0,
+    errors: 0,
+  };
+}
+
+function counters(map: Map<string, StatsCounters>, key: string): StatsCounters {
+  let entry = map.get(key);
+  if (!entry) {
+    entry = emptyCounters();
+    map.set(key, entry);
+  }
+  return entry;
+}
+
+function toRecord(map: Map<string, StatsCounters>): Record<string, StatsCounters> {
+  const record: Record<string, StatsCounters> = {};
+  for (const [key, value] of map) {
+    record[key] = { ...value };
+  }
+  return record;
+}
@@ -1,4 +1,59 @@
-import type { Statement, Mutation } from '@includekit/core';
+import type { Statement, Mutation, CircuitBreakerStatus } from '@includekit/core';
+
+/**
+ * Published on the invalidation bus after writes succeed
+ * Every instance runs the mutations through its own engine, so shapes it
+ * registered are evicted from the shared cache too.
+ */
+export interface InvalidationMessage {
+  origin: string; // Publishing instance (receivers skip their own messages)
+  mutations: Mutation[];
+}
+
+/**
+ * Cache backend state, for diagnostics
+ */
+export interface CacheHealth {
+  available: boolean; // False while fills skip the cache
+  keyNamespace: string; // Prefix of this instance's cache keys (schema, engine and build hash)
+  breaker?: CircuitBreakerStatus; // When the cache is or wraps a CircuitBreakerCache (Cache.status())
+}
+
+/**
+ * Per-query cache settings, overriding the orchestrator defaults
+ */
+export interface ReadCacheOptions {
+  ttlMs?: number; // How long the entry is fresh
+  staleWhileRevalidateMs?: number; // How long after that it may be served while refreshing
+  mode?: 'bypass' | 'refresh'; // bypass: skip the cache; refresh: re-execute and overwrite the entry
+}
+
+/**
+ * Per-query cache setting as passed in ORM call args (e.g. `{ where, cache }`)
+ * false bypasses the cache, 'refresh' re-executes and overwrites the entry
+ */
+export type QueryCacheArg = false | 'refresh' | Omit<ReadCacheOptions, 'mode'>;
+
+/**
+ * Parameters for CachingService.executeRead
+ */
+export interface ReadParams<T> {
+  statement: Statement;
+  execute: () => Promise<T>;
+  resultHint?: Record<string, any[]>;
+  cache?: ReadCacheOptions;
+  operation?: string; // ORM operation (e.g. 'findMany'), for stats
+}
+
+/**
+ * Parameters for CachingService.executeWrite
+ */
+export interface WriteParams<T> {
+  mutation: Mutation;
+  execute: () => Promise<T>;
+  txContext?: any; // For transaction-local eviction tracking
+  operation?: string; // ORM operation (e.g. 'createMany'), for stats
+}
 
 /**
  * Caching service interface
@@ -12,12 +67,9 @@ export interface CachingService {
    * - Tracks in engine
    * - Stores in cache
    * - Handles singleflight
+   * - Serves stale entries during the revalidate window, refreshing once
    */
-  executeRead<T>(params: {
-    statement: Statement;
-    execute: () => Promise<T>;
-    resultHint?: Record<string, any[]>;
-  }): Promise<T>;
+  executeRead<T>(params: ReadParams<T>): Promise<T>;
 
   /**
    * Execute a write operation with invalidation
@@ -25,11 +77,7 @@ export interface CachingService {
    * - Gets eviction list from engine
    * - Handles transaction-local tracking or immediate eviction
    */
-  executeWrite<T>(params: {
-    mutation: Mutation;
-    execute: () => Promise<T>;
-    txContext?: any; // For transaction-local eviction tracking
-  }): Promise<T>;
+  executeWrite<T>(params: WriteParams<T>): Promise<T>;
 
   /**
    * Commit transaction evictions
@@ -0,0 +1,281 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  LocalPubSub,
+  MemoryLRU,
+  ReferenceEngine,
+  type AppSchema,
+  type Mutation,
+  type PubSub,
+  type Statement,
+} from '@includekit/core';
+import { withORM } from './orchestrator';
+import type { CachingService, InvalidationMessage } from './types';
+import type { ORMMapper } from './mapper-interface';
+
+interface Post {
+  id: string;
+  title: string;
+}
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+}
+
+function deferred<T = void>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => (resolve = res));
+  return { promise, resolve };
+}
+
+const schema: AppSchema = {
+  version: 1,
+  models: [
+    {
+      name: 'User',
+      id: { kind: 'string' },
+      relations: [
+        { name: 'posts', model: 'Post', cardinality: 'one-to-many', foreignKey: 'authorId' },
+      ],
+    },
+    { name: 'Post', id: { kind: 'string' }, relations: [] },
+  ],
+} as AppSchema;
+
+const statement: Statement = {
+  model: 'Post',
+  where: { conditions: [{ field: 'id', op: 'eq', value: 'p1' }] },
+} as Statement;
+
+const mutation: Mutation = {
+  changes: [{ action: 'update', model: 'Post', id: 'p1', sets: { title: 'v2' } }],
+} as Mutation;
+
+const silent = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+const destroyers: Array<() => Promise<void> | void> = [];
+
+afterEach(async () => {
+  await Promise.all(destroyers.splice(0).map((destroy) => destroy()));
+});
+
+/**
+ * Orchestrator over a fake ORM; the caching service is driven directly
+ */
+async function setup(
+  options: { cache?: MemoryLRU<any>; invalidationBus?: PubSub<InvalidationMessage> } = {}
+) {
+  let service!: CachingService;
+  const mapper = {
+    extendClient: (client: object, cachingService: CachingService) => {
+      service = cachingService;
+      return client;
+    },
+  } as unknown as ORMMapper<object, unknown, unknown>;
+
+  const cache = options.cache ?? new MemoryLRU<any>({ enableBackgroundCleanup: false });
+  const engine = new ReferenceEngine();
+  const client: any = await withORM(
+    {},
+    {
+      schema: { json: schema },
+      cache,
+      engine,
+      mapper,
+      logger: silent,
+      invalidationBus: options.invalidationBus,
+    }
+  );
+  destroyers.push(
+    () => client.__includekit_destroy(),
+    () => cache.destroy()
+  );
+
+  const db = { title: 'v1' };
+  return {
+    service,
+    client,
+    cache,
+    engine,
+    db,
+    read: (execute?: () => Promise<Post[]>) =>
+      service.executeRead<Post[]>({
+        statement,
+        execute: execute ?? (async () => [{ id: 'p1', title: db.title }]),
+      }),
+    write: (txContext?: object, execute?: () => Promise<number>) =>
+      service.executeWrite({
+        mutation,
+        txContext,
+        execute:
+          execute ??
+          (async () => {
+            db.title = 'v2';
+            return 1;
+          }),
+      }),
+  };
+}
+
+/**
+ * Query that resolves only when release() is called
+ */
+function heldQuery() {
+  const started = deferred();
+  const result = deferred<Post[]>();
+  return {
+    started: started.promise,
+    release: (title: string) => result.resolve([{ id: 'p1', title }]),
+    execute: () => {
+      started.resolve();
+      return result.promise;
+    },
+  };
+}
+
+describe('WriteTracker', () => {
+  describe('writes overlapping a read', () => {
+    it("doesn't cache a result whose query overlapped a write", async () => {
+      const { read, write, cache } = await setup();
+      const query = heldQuery();
+
+      const pending = read(query.execute);
+      await query.started;
+      await write();
+      query.release('v1');
+
+      expect((await pending)[0].title).toBe('v1');
+      expect(cache.size()).toBe(0);
+      expect((await read())[0].title).toBe('v2');
+      expect(cache.size()).toBe(1);
+    });
+
+    it("doesn't cache a result when a write lands between addQuery and cache.set", async () => {
+      const { read, write, cache, engine } = await setup();
+      const registered = deferred();
+      const resume = deferred();
+      const addQuery = engine.addQuery.bind(engine);
+      vi.spyOn(engine, 'addQuery').mockImplementationOnce(async (input) => {
+        const tracked = await addQuery(input);
+        registered.resolve();
+        await resume.promise;
+        return tracked;
+      });
+
+      const pending = read(async () => [{ id: 'p1', title: 'v1' }]);
+      await registered.promise;
+      await write();
+      resume.resolve();
+
+      expect((await pending)[0].title).toBe('v1');
+      expect(cache.size()).toBe(0);
+      expect((await read())[0].title).toBe('v2');
+    });
+
+    it("doesn't cache while a write is in flight", async () => {
+      const { read, write, cache, db } = await setup();
+      const committed = deferred();
+
+      // The write computes its evict list before the read registers its shape
+      const writing = write(undefined, async () => {
+        await committed.promise;
+        db.title = 'v2';
+        return 1;
+      });
+      expect((await read())[0].title).toBe('v1');
+      expect(cache.size()).toBe(0);
+
+      committed.resolve();
+      await writing;
+      expect((await read())[0].title).toBe('v2');
+      expect(cache.size()).toBe(1);
+    });
+
+    it('caches reads of models no write touched', async () => {
+      const { service, write, cache } = await setup();
+      const query = heldQuery();
+
+      const pending = service.executeRead<Post[]>({
+        statement: { model: 'User' } as Statement,
+        execute: query.execute as () => Promise<any>,
+      });
+      await query.started;
+      await write();
+      query.release('v1');
+      await pending;
+
+      expect(cache.size()).toBe(1);
+    });
+  });
+
+  describe('transactions', () => {
+    it('caches again once the transaction commits', async () => {
+      const { client, read, write, cache, db } = await setup();
+      const tx = {};
+      client.__includekit_initTransaction(tx);
+      await write(tx, async () => 1); // Not visible outside the transaction yet
+
+      expect((await read())[0].title).toBe('v1');
+      expect(cache.size()).toBe(0);
+
+      db.title = 'v2';
+      await client.__includekit_commitTransaction(tx);
+
+      expect((await read())[0].title).toBe('v2');
+      expect(cache.size()).toBe(1);
+    });
+
+    it("doesn't cache a result whose query started before the commit", async () => {
+      const { client, read, write, cache, db } = await setup();
+      const tx = {};
+      client.__includekit_initTransaction(tx);
+      await write(tx, async () => 1);
+      const query = heldQuery();
+
+      const pending = read(query.execute);
+      await query.started;
+      db.title = 'v2';
+      await client.__includekit_commitTransaction(tx);
+      query.release('v1');
+      await pending;
+
+      expect(cache.size()).toBe(0);
+      expect((await read())[0].title).toBe('v2');
+    });
+
+    it('caches again once the transaction rolls back', async () => {
+      const { client, read, write, cache } = await setup();
+      const tx = {};
+      client.__includekit_initTransaction(tx);
+      await write(tx, async () => 1);
+
+      await read();
+      expect(cache.size()).toBe(0);
+
+      await client.__includekit_rollbackTransaction(tx);
+
+      expect((await read())[0].title).toBe('v1');
+      expect(cache.size()).toBe(1);
+    });
+  });
+
+  describe('invalidation bus', () => {
+    it("doesn't cache a result whose query overlapped another instance's write", async () => {
+      const bus = new LocalPubSub<InvalidationMessage>({ logger: silent });
+      const cache = new MemoryLRU<any>({ enableBackgroundCleanup: false });
+      const writer = await setup({ cache, invalidationBus: bus });
+      const reader = await setup({ cache, invalidationBus: bus });
+      const query = heldQuery();
+
+      const pending = reader.read(query.execute);
+      await query.started;
+      await writer.write(); // Published to the reader, which bumps Post's generation
+      query.release('v1');
+      await pending;
+
+      expect(cache.size()).toBe(0);
+      expect((await reader.read(async () => [{ id: 'p1', title: 'v2' }]))[0].title).toBe('v2');
+      expect(cache.size()).toBe(1);
+    });
+  });
+});
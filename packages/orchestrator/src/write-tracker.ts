@@ -0,0 +1,135 @@
+import type { AppSchema, Filter, Include, Mutation, Statement } from '@includekit/core';
+
+/**
+ * Per-model write state captured when a read starts
+ */
+export interface ReadSnapshot {
+  models: string[];
+  generations: number[];
+}
+
+/**
+ * Detects writes that overlap a read, so its result isn't cached
+ *
+ * A read can store a stale result in two ways: the write commits and evicts
+ * between the read's query and its cache.set(), or the write computes its
+ * evict list before the read registers its shape with the engine. Each model
+ * therefore has a generation, bumped when a write's evictions are done, and a
+ * count of writes in flight (transactions stay in flight until they commit
+ * or roll back). A read may only cache its result if no write touching one of
+ * its models is in flight and none finished since the read started.
+ */
+export class WriteTracker {
+  private readonly generations = new Map<string, number>();
+  private readonly inflight = new Map<string, number>();
+  private readonly relations = new Map<string, Map<string, string>>(); // model -> relation -> target
+
+  constructor(schema: AppSchema) {
+    for (const model of schema.models) {
+      this.relations.set(
+        model.name,
+        new Map((model.relations ?? []).map((relation) => [relation.name, relation.model]))
+      );
+    }
+  }
+
+  /**
+   * Record the generations of every model a statement reads
+   */
+  snapshot(statement: Statement): ReadSnapshot {
+    const models = this.statementModels(statement);
+    return { models, generations: models.map((model) => this.generations.get(model) ?? 0) };
+  }
+
+  /**
+   * Whether a write to one of the snapshot's models is in flight or finished since
+   */
+  changedSince(snapshot: ReadSnapshot): boolean {
+    return snapshot.models.some(
+      (model, i) =>
+        (this.inflight.get(model) ?? 0) > 0 ||
+        (this.generations.get(model) ?? 0) !== snapshot.generations[i]
+    );
+  }
+
+  /**
+   * Mark writes to models as started; call end() with the same models once
+   * their evictions are done (or they failed)
+   */
+  begin(models: string[]): void {
+    for (const model of models) {
+      this.inflight.set(model, (this.inflight.get(model) ?? 0) + 1);
+    }
+  }
+
+  end(models: string[]): void {
+    for (const model of models) {
+      const count = (this.inflight.get(model) ?? 0) - 1;
+      if (count > 0) {
+        this.inflight.set(model, count);
+      } else {
+        this.inflight.delete(model);
+      }
+    }
+    this.bump(models);
+  }
+
+  /**
+   * Record writes that finished elsewhere (e.g. another instance)
+   */
+  bump(models: string[]): void {
+    for (const model of models) {
+      this.generations.set(model, (this.generations.get(model) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Models a statement reads: its own, included relations and relation
+   * fields its filters reference
+   */
+  statementModels(statement: Statement): string[] {
+    const models = new Set<string>([statement.model]);
+    this.collectFilter(statement.model, statement.where, models);
+    this.collectIncludes(statement.model, statement.include, models);
+    return Array.from(models);
+  }
+
+  private collectIncludes(
+    model: string,
+    includes: Include[] | null | undefined,
+    models: Set<string>
+  ): void {
+    for (const include of includes ?? []) {
+      const target = this.relations.get(model)?.get(include.relation);
+      if (!target) continue;
+      models.add(target);
+      this.collectFilter(target, include.where, models);
+      this.collectIncludes(target, include.includes, models);
+    }
+  }
+
+  private collectFilter(model: string, filter: Filter | null | undefined, models: Set<string>): void {
+    if (!filter) return;
+
+    // Conditions on a relation field (field_path is a JSON path, not a relation path)
+    for (const condition of filter.conditions ?? []) {
+      const target = this.relations.get(model)?.get(condition.field);
+      if (target) models.add(target);
+    }
+    filter.AND?.forEach((child) => this.collectFilter(model, child, models));
+    filter.OR?.forEach((child) => this.collectFilter(model, child, models));
+    this.collectFilter(model, filter.NOT, models);
+  }
+}
+
+/**
+ * Models a mutation writes, including link/unlink targets
+ */
+export function mutationModels(mutation: Mutation): string[] {
+  const models = new Set<string>();
+  for (const change of mutation.changes) {
+    models.add(change.model);
+    if (change.targetModel) models.add(change.targetModel);
+  }
+  return Array.from(models);
+}
@@ -0,0 +1,37 @@
+import { IncludeKitError } from '@includekit/core';
+import type { ReadCacheOptions } from '@includekit/orchestrator';
+
+/**
+ * Split the IncludeKit `cache` property off Prisma read args
+ * Prisma rejects unknown args, so only the rest may reach query().
+ *
+ * - `cache: false` → bypass the cache
+ * - `cache: 'refresh'` → re-execute and overwrite the entry
+ * - `cache: { ttlMs, staleWhileRevalidateMs }` → override the defaults
+ */
+export function extractCacheArg(args: any): { args: any; cache?: ReadCacheOptions } {
+  if (!args || !('cache' in args)) {
+    return { args };
+  }
+
+  const { cache, ...rest } = args;
+  if (cache === undefined || cache === true) {
+    return { args: rest };
+  }
+  if (cache === false) {
+    return { args: rest, cache: { mode: 'bypass' } };
+  }
+  if (cache === 'refresh') {
+    return { args: rest, cache: { mode: 'refresh' } };
+  }
+  if (typeof cache === 'object' && cache !== null) {
+    const { ttlMs, staleWhileRevalidateMs } = cache;
+    return { args: rest, cache: { ttlMs, staleWhileRevalidateMs } };
+  }
+
+  throw new IncludeKitError(
+    'INVALID_CACHE_ARG',
+    `Invalid cache argument: ${JSON.stringify(cache)} (expected false, 'refresh' or { ttlMs, staleWhileRevalidateMs })`,
+    { details: { cache } }
+  );
+}
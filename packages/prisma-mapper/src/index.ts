@@ -5,6 +5,9 @@
  */
 
 export { PrismaMapper } from './mapper';
+export type { PrismaMapperOptions, RawSqlOptions } from './mapper';
 export { StatementBuilder } from './statement-builder';
 export { MutationBuilder } from './mutation-builder';
+export { extractCacheArg } from './cache-arg';
+export { parseWrittenTables, rawSqlText } from './raw-sql';
 export { mapPrismaOperator, SPEC_OPERATORS } from './operators';
@@ -1,7 +1,35 @@
-import type { Statement, Mutation, AppSchema } from '@includekit/core';
+import { consoleLogger } from '@includekit/core';
+import type { Statement, Mutation, AppSchema, Logger } from '@includekit/core';
+import { modelWideMutation } from '@includekit/orchestrator';
 import type { ORMMapper, CachingService } from '@includekit/orchestrator';
 import { StatementBuilder } from './statement-builder';
 import { MutationBuilder } from './mutation-builder';
+import { extractCacheArg } from './cache-arg';
+import { parseWrittenTables, rawSqlText } from './raw-sql';
+
+/**
+ * How $executeRaw / $queryRaw (and their Unsafe variants) invalidate
+ */
+export interface RawSqlOptions {
+  /**
+   * Table name -> model(s), for @@map names and named many-to-many join
+   * tables. Model names and implicit join tables (_CategoryToPost) are
+   * matched without it; other tables are ignored.
+   */
+  tableMap?: Record<string, string | string[]>;
+  /**
+   * When the written tables can't be determined
+   * flush: evict every shape of every model
+   * warn: log a warning and invalidate nothing
+   * Default: 'flush'
+   */
+  unparseable?: 'flush' | 'warn';
+}
+
+export interface PrismaMapperOptions {
+  rawSql?: RawSqlOptions;
+  logger?: Logger;
+}
 
 /**
  * Prisma ORM mapper implementation
@@ -9,10 +37,40 @@ import { MutationBuilder } from './mutation-builder';
 export class PrismaMapper implements ORMMapper<any, any, any> {
   private statementBuilder: StatementBuilder;
   private mutationBuilder: MutationBuilder;
+  private tableModels = new Map<string, string[]>(); // Lowercased table name -> models
+  private logger: Logger;
 
-  constructor(private schema: AppSchema) {
+  constructor(
+    private schema: AppSchema,
+    private options: PrismaMapperOptions = {}
+  ) {
     this.statementBuilder = new StatementBuilder();
     this.mutationBuilder = new MutationBuilder(schema);
+    this.logger = options.logger ?? consoleLogger;
+
+    const models = new Set(schema.models.map((m) => m.name));
+    const addTable = (table: string, names: string[]) => {
+      const key = table.toLowerCase();
+      this.tableModels.set(key, [...(this.tableModels.get(key) ?? []), ...names]);
+    };
+    for (const model of schema.models) {
+      addTable(model.name, [model.name]);
+      for (const relation of model.relations ?? []) {
+        if (relation.cardinality !== 'many-to-many') continue;
+        const pair = [model.name, relation.model].sort();
+        if (model.name === pair[0]) addTable(`_${pair[0]}To${pair[1]}`, pair);
+      }
+    }
+    for (const [table, mapped] of Object.entries(options.rawSql?.tableMap ?? {})) {
+      const names = Array.isArray(mapped) ? mapped : [mapped];
+      const unknown = names.filter((name) => !models.has(name));
+      if (unknown.length > 0) {
+        this.logger.warn(
+          `IncludeKit rawSql.tableMap entry "${table}" names unknown model(s): ${unknown.join(', ')}`
+        );
+      }
+      addTable(table, names.filter((name) => models.has(name)));
+    }
   }
 
   buildStatement(params: {
@@ -31,39 +89,93 @@ export class PrismaMapper implements ORMMapper<any, any, any> {
     return this.mutationBuilder.buildMutation(params);
   }
 
+  /**
+   * Build a model-wide Mutation for the tables raw SQL writes
+   * Returns null when it writes no known model.
+   */
+  buildRawMutation(params: { operation: string; args: any }): Mutation | null {
+    const sql = rawSqlText(params.args);
+    const tables = sql === undefined ? null : parseWrittenTables(sql);
+
+    if (tables === null) {
+      if (this.options.rawSql?.unparseable === 'warn') {
+        this.logger.warn(
+          `IncludeKit couldn't determine the tables written by ${params.operation}; cached queries may be stale`
+        );
+        return null;
+      }
+      return modelWideMutation(this.schema.models.map((m) => m.name));
+    }
+
+    const models = new Set(
+      tables.flatMap((table) => this.tableModels.get(table.toLowerCase()) ?? [])
+    );
+    return models.size > 0 ? modelWideMutation(Array.from(models)) : null;
+  }
+
   extendClient(client: any, cachingService: CachingService): any {
     const self = this;
 
+    // Raw SQL: evict every shape reading the models it writes
+    async function raw(this: any, { operation, args, query }: any) {
+      const mutation = self.buildRawMutation({ operation, args });
+      if (!mutation) {
+        return query(args);
+      }
+
+      return cachingService.executeWrite({
+        mutation,
+        execute: () => query(args),
+        operation,
+        txContext: this,
+      });
+    }
+
     // Use Prisma Client Extensions to intercept operations
     return client.$extends({
       query: {
+        $executeRaw: raw,
+        $executeRawUnsafe: raw,
+        $queryRaw: raw,
+        $queryRawUnsafe: raw,
         $allModels: {
           // Read operations
-          async findMany(this: any, { model, operation, args, query }: any) {
-            // 1. Build statement (mapper's job)
+          async findMany(this: any, { model, operation, args: rawArgs, query }: any) {
+            // 1. Strip the IncludeKit cache arg; Prisma must not see it
+            const { args, cache } = extractCacheArg(rawArgs);
+
+            // 2. Build statement (mapper's job)
             const statement = self.buildStatement({ model, operation, args });
 
-            // 2. Use orchestrator's caching service
+            // 3. Use orchestrator's caching service
             return cachingService.executeRead({
               statement,
               execute: () => query(args), // Provide DB execution function
+              operation,
+              cache,
               resultHint: undefined,
             });
           },
 
-          async findFirst(this: any, { model, operation, args, query }: any) {
+          async findFirst(this: any, { model, operation, args: rawArgs, query }: any) {
+            const { args, cache } = extractCacheArg(rawArgs);
             const statement = self.buildStatement({ model, operation, args });
             return cachingService.executeRead({
               statement,
               execute: () => query(args),
+              operation,
+              cache,
             });
           },
 
-          async findUnique(this: any, { model, operation, args, query }: any) {
+          async findUnique(this: any, { model, operation, args: rawArgs, query }: any) {
+            const { args, cache } = extractCacheArg(rawArgs);
             const statement = self.buildStatement({ model, operation, args });
             return cachingService.executeRead({
               statement,
               execute: () => query(args),
+              operation,
+              cache,
             });
           },
 
@@ -79,6 +191,7 @@ export class PrismaMapper implements ORMMapper<any, any, any> {
             return cachingService.executeWrite({
               mutation,
               execute: () => query(args),
+              operation,
               txContext, // Always pass; orchestrator determines if it's tracking
             });
           },
@@ -90,6 +203,7 @@ export class PrismaMapper implements ORMMapper<any, any, any> {
             return cachingService.executeWrite({
               mutation,
               execute: () => query(args),
+              operation,
               txContext,
             });
           },
@@ -101,6 +215,7 @@ export class PrismaMapper implements ORMMapper<any, any, any> {
             return cachingService.executeWrite({
               mutation,
               execute: () => query(args),
+              operation,
               txContext,
             });
           },
@@ -112,6 +227,7 @@ export class PrismaMapper implements ORMMapper<any, any, any> {
             return cachingService.executeWrite({
               mutation,
               execute: () => query(args),
+              operation,
               txContext,
             });
           },
@@ -123,6 +239,7 @@ export class PrismaMapper implements ORMMapper<any, any, any> {
             return cachingService.executeWrite({
               mutation,
               execute: () => query(args),
+              operation,
               txContext,
             });
           },
@@ -134,6 +251,7 @@ export class PrismaMapper implements ORMMapper<any, any, any> {
             return cachingService.executeWrite({
               mutation,
               execute: () => query(args),
+              operation,
               txContext,
             });
           },
@@ -145,6 +263,7 @@ export class PrismaMapper implements ORMMapper<any, any, any> {
             return cachingService.executeWrite({
               mutation,
               execute: () => query(args),
+              operation,
               txContext,
             });
           },
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { parseWrittenTables, rawSqlText } from './raw-sql';
+
+describe('parseWrittenTables', () => {
+  it('finds nothing written by reads', () => {
+    expect(parseWrittenTables('SELECT * FROM "Post" WHERE id = $1')).toEqual([]);
+    expect(parseWrittenTables('SELECT * FROM Post FOR UPDATE')).toEqual([]);
+    expect(parseWrittenTables('EXPLAIN SELECT 1')).toEqual([]);
+    expect(parseWrittenTables('BEGIN; SELECT 1; COMMIT')).toEqual([]);
+  });
+
+  it('finds the target of each write statement', () => {
+    expect(parseWrittenTables('INSERT INTO Post (id) VALUES (1)')).toEqual(['Post']);
+    expect(parseWrittenTables('UPDATE Post SET title = 1')).toEqual(['Post']);
+    expect(parseWrittenTables('DELETE FROM Post WHERE id = 1')).toEqual(['Post']);
+    expect(
+      parseWrittenTables('MERGE INTO t USING s ON t.id = s.id WHEN MATCHED THEN UPDATE SET a = 1')
+    ).toEqual(['t']);
+    expect(parseWrittenTables('TRUNCATE TABLE a, b CASCADE')).toEqual(['a', 'b']);
+    expect(parseWrittenTables('DROP TABLE IF EXISTS a, b')).toEqual(['a', 'b']);
+    expect(parseWrittenTables('ALTER TABLE ONLY a ADD COLUMN x int')).toEqual(['a']);
+    expect(parseWrittenTables('INSERT OR REPLACE INTO t VALUES (1)')).toEqual(['t']);
+    expect(parseWrittenTables('EXPLAIN ANALYZE DELETE FROM t')).toEqual(['t']);
+  });
+
+  it('collects tables across statements', () => {
+    expect(parseWrittenTables('UPDATE a SET x = 1; DELETE FROM b; UPDATE a SET y = 2')).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  describe('quoting', () => {
+    it('unquotes identifiers and keeps the last part of qualified names', () => {
+      expect(parseWrittenTables('UPDATE "public"."Post" SET "title" = $1')).toEqual(['Post']);
+      expect(parseWrittenTables('UPDATE `my``table` SET a = 1')).toEqual(['my`table']);
+      expect(parseWrittenTables('DELETE FROM [dbo].[Post Table] WHERE id = 1')).toEqual([
+        'Post Table',
+      ]);
+      expect(parseWrittenTables('INSERT INTO "we""ird" VALUES (1)')).toEqual(['we"ird']);
+    });
+
+    it('ignores keywords in string literals and comments', () => {
+      expect(
+        parseWrittenTables(`UPDATE "Post" SET "title" = 'DELETE FROM "User"' WHERE id = 1`)
+      ).toEqual(['Post']);
+      expect(parseWrittenTables(`SELECT 'it''s; DELETE FROM x'`)).toEqual([]);
+      expect(parseWrittenTables('/* UPDATE x SET a = 1 */ SELECT 1 -- DELETE FROM y')).toEqual([]);
+      expect(parseWrittenTables('SELECT $body$ DELETE FROM x; $body$')).toEqual([]);
+    });
+  });
+
+  describe('CTE writes', () => {
+    it('finds writes nested in WITH clauses', () => {
+      expect(
+        parseWrittenTables(
+          'WITH d AS (DELETE FROM "Post" WHERE id = 1 RETURNING *) SELECT * FROM d'
+        )
+      ).toEqual(['Post']);
+      expect(
+        parseWrittenTables(
+          'WITH u AS (UPDATE "User" SET a = 1 RETURNING id) INSERT INTO "Log" SELECT id FROM u'
+        )
+      ).toEqual(['User', 'Log']);
+    });
+
+    it('finds nothing for read-only CTEs', () => {
+      expect(parseWrittenTables('WITH p AS (SELECT * FROM "Post") SELECT * FROM p')).toEqual([]);
+    });
+  });
+
+  describe('upserts', () => {
+    it('reports only the inserted table for ON CONFLICT DO UPDATE', () => {
+      expect(
+        parseWrittenTables(
+          `INSERT INTO "User" (id, email) VALUES (1, 'a') ON CONFLICT (id) DO UPDATE SET email = EXCLUDED.email`
+        )
+      ).toEqual(['User']);
+      expect(
+        parseWrittenTables('INSERT INTO "User" (id) VALUES (1) ON CONFLICT DO NOTHING')
+      ).toEqual(['User']);
+    });
+
+    it('reports only the inserted table for ON DUPLICATE KEY UPDATE', () => {
+      expect(
+        parseWrittenTables('INSERT INTO User (id) VALUES (1) ON DUPLICATE KEY UPDATE id = id')
+      ).toEqual(['User']);
+    });
+  });
+
+  describe('MySQL multi-table UPDATE', () => {
+    it('reports every joined table', () => {
+      expect(
+        parseWrittenTables('UPDATE Post p JOIN User u ON u.id = p.authorId SET p.title = u.name')
+      ).toEqual(['Post', 'User']);
+      expect(
+        parseWrittenTables(
+          'UPDATE Post p INNER JOIN User u ON u.id = p.authorId LEFT JOIN Tag t ON t.id = p.tagId SET p.title = u.name'
+        )
+      ).toEqual(['Post', 'User', 'Tag']);
+    });
+
+    it('reports every comma-separated table', () => {
+      expect(
+        parseWrittenTables('UPDATE Post, User SET Post.a = User.b WHERE Post.authorId = User.id')
+      ).toEqual(['Post', 'User']);
+    });
+
+    it('ignores tables read by subqueries in SET', () => {
+      expect(
+        parseWrittenTables(
+          'UPDATE Post SET title = (SELECT name FROM User WHERE User.id = Post.authorId)'
+        )
+      ).toEqual(['Post']);
+    });
+  });
+
+  describe('REPLACE', () => {
+    it('treats REPLACE(...) as a function', () => {
+      expect(parseWrittenTables(`SELECT REPLACE(title, 'a', 'b') FROM Post`)).toEqual([]);
+      expect(parseWrittenTables(`UPDATE Post SET title = REPLACE(title, 'a', 'b')`)).toEqual([
+        'Post',
+      ]);
+    });
+
+    it('treats REPLACE INTO as a write', () => {
+      expect(parseWrittenTables('REPLACE INTO Post (id) VALUES (1)')).toEqual(['Post']);
+    });
+  });
+
+  describe('CREATE', () => {
+    it('finds nothing written by CREATE TABLE, INDEX or VIEW', () => {
+      expect(parseWrittenTables('CREATE TABLE t (id int)')).toEqual([]);
+      expect(parseWrittenTables('CREATE TEMP TABLE x AS SELECT 1')).toEqual([]);
+      expect(parseWrittenTables('CREATE UNIQUE INDEX i ON t (a)')).toEqual([]);
+      expect(parseWrittenTables('CREATE OR REPLACE VIEW v AS SELECT 1')).toEqual([]);
+      expect(parseWrittenTables('CREATE MATERIALIZED VIEW m AS SELECT 1')).toEqual([]);
+    });
+
+    it("can't place other CREATE statements", () => {
+      expect(
+        parseWrittenTables('CREATE TRIGGER tr AFTER INSERT ON t FOR EACH ROW EXECUTE FUNCTION f()')
+      ).toBeNull();
+      expect(
+        parseWrittenTables('CREATE FUNCTION f() RETURNS void AS $$ DELETE FROM t $$ LANGUAGE sql')
+      ).toBeNull();
+      expect(
+        parseWrittenTables('CREATE OR REPLACE RULE r AS ON INSERT TO t DO NOTHING')
+      ).toBeNull();
+    });
+  });
+
+  it("returns null for statements it can't place", () => {
+    expect(parseWrittenTables('CALL proc()')).toBeNull();
+    expect(parseWrittenTables('DO $$ BEGIN END $$')).toBeNull();
+    expect(parseWrittenTables('DELETE p FROM Post p JOIN User u ON u.id = p.authorId')).toBeNull();
+    expect(parseWrittenTables('SELECT 1; CALL proc()')).toBeNull();
+  });
+});
+
+describe('rawSqlText', () => {
+  it('joins tagged template strings with placeholders', () => {
+    expect(rawSqlText([['UPDATE Post SET a = ', ' WHERE id = ', ''], 1, 2])).toBe(
+      'UPDATE Post SET a = ? WHERE id = ?'
+    );
+  });
+
+  it('reads Prisma.sql objects and Unsafe strings', () => {
+    expect(rawSqlText([{ sql: 'DELETE FROM Post', values: [] }])).toBe('DELETE FROM Post');
+    expect(rawSqlText([{ strings: ['SELECT ', ''], values: [1] }])).toBe('SELECT ?');
+    expect(rawSqlText(['SELECT $1', 1])).toBe('SELECT $1');
+  });
+
+  it('returns undefined for anything else', () => {
+    expect(rawSqlText([42])).toBeUndefined();
+    expect(rawSqlText(undefined)).toBeUndefined();
+  });
+});
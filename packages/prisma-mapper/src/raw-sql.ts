@@ -0,0 +1,353 @@
+/**
+ * Raw SQL handling for $executeRaw / $queryRaw
+ *
+ * The parser only needs to find tables a statement may write. It doesn't
+ * validate SQL: anything it can't place (procedure calls, DO blocks, dynamic
+ * table names) reports null so the caller can apply its fallback.
+ */
+
+interface Token {
+  kind: 'word' | 'ident' | 'punct' | 'other'; // ident: quoted identifier
+  text: string;
+}
+
+// Statements that can't change rows of an existing table (nested writes,
+// e.g. in CTEs or EXPLAIN ANALYZE, are still found)
+const NO_WRITE = new Set([
+  'SELECT',
+  'WITH',
+  'VALUES',
+  'TABLE',
+  'SHOW',
+  'EXPLAIN',
+  'DESCRIBE',
+  'DESC',
+  'SET',
+  'RESET',
+  'BEGIN',
+  'START',
+  'COMMIT',
+  'END',
+  'ROLLBACK',
+  'SAVEPOINT',
+  'RELEASE',
+  'ANALYZE',
+  'VACUUM',
+  'LOCK',
+  'GRANT',
+  'REVOKE',
+  'LISTEN',
+  'UNLISTEN',
+  'NOTIFY',
+  'PRAGMA',
+  'USE',
+  'COMMENT',
+]);
+
+const WRITE = new Set([
+  'INSERT',
+  'REPLACE',
+  'UPSERT',
+  'UPDATE',
+  'DELETE',
+  'MERGE',
+  'TRUNCATE',
+  'ALTER',
+  'DROP',
+]);
+
+// CREATE TABLE / INDEX / VIEW add objects without writing rows of existing
+// tables; any other CREATE (TRIGGER, FUNCTION, RULE...) can't be placed
+const CREATE_MODIFIERS = new Set([
+  'OR',
+  'REPLACE',
+  'TEMP',
+  'TEMPORARY',
+  'GLOBAL',
+  'LOCAL',
+  'UNLOGGED',
+  'UNIQUE',
+  'FULLTEXT',
+  'SPATIAL',
+  'MATERIALIZED',
+  'RECURSIVE',
+]);
+const CREATE_NO_WRITE = ['TABLE', 'INDEX', 'VIEW'];
+
+// A write keyword after one of these starts a (nested) statement; anywhere
+// else it's a clause (ON CONFLICT DO UPDATE, FOR UPDATE, ON DELETE CASCADE...)
+const STATEMENT_CONTEXT = new Set(['(', ')', 'EXPLAIN', 'ANALYZE', 'VERBOSE']);
+
+/**
+ * SQL text of raw query args as Prisma passes them to query extensions:
+ * [strings, ...values] for tagged templates, [Prisma.sql`...`], or
+ * [sql, ...values] for the Unsafe variants
+ */
+export function rawSqlText(args: unknown): string | undefined {
+  const first = Array.isArray(args) ? args[0] : args;
+  if (typeof first === 'string') return first;
+  if (Array.isArray(first) && first.every((part) => typeof part === 'string')) {
+    return first.join('?');
+  }
+  if (first && typeof first === 'object') {
+    const sql = first as { sql?: unknown; strings?: unknown };
+    if (typeof sql.sql === 'string') return sql.sql;
+    if (Array.isArray(sql.strings)) return sql.strings.join('?');
+  }
+  return undefined;
+}
+
+/**
+ * Tables a SQL string may write (unqualified, as written)
+ * Returns [] for reads and null when the writes can't be determined.
+ */
+export function parseWrittenTables(sql: string): string[] | null {
+  const tables = new Set<string>();
+
+  for (const statement of splitStatements(tokenize(sql))) {
+    const first = statement[0];
+    if (first.kind !== 'word') return null;
+    const keyword = first.text.toUpperCase();
+    if (keyword === 'CREATE') {
+      let i = 1;
+      while (isWord(statement[i], ...CREATE_MODIFIERS)) i++;
+      if (!isWord(statement[i], ...CREATE_NO_WRITE)) return null;
+    } else if (!NO_WRITE.has(keyword) && !WRITE.has(keyword)) {
+      return null;
+    }
+
+    for (let i = 0; i < statement.length; i++) {
+      const token = statement[i];
+      if (token.kind !== 'word' || !WRITE.has(token.text.toUpperCase())) continue;
+
+      const prev = statement[i - 1];
+      const prevText = prev?.kind === 'word' ? prev.text.toUpperCase() : prev?.text;
+      if (prev && !STATEMENT_CONTEXT.has(prevText!)) continue;
+
+      const targets = writeTargets(statement, i);
+      if (targets === null) return null;
+      targets.forEach((table) => tables.add(table));
+    }
+  }
+
+  return Array.from(tables);
+}
+
+/**
+ * Tables written by the statement starting at tokens[start]
+ */
+function writeTargets(tokens: Token[], start: number): string[] | null {
+  const keyword = tokens[start].text.toUpperCase();
+  if (tokens[start + 1]?.text === '(') return []; // A function, e.g. REPLACE(name, 'a', 'b')
+  let i = start + 1;
+  const skip = (...words: string[]) => {
+    while (isWord(tokens[i], ...words)) i++;
+  };
+
+  switch (keyword) {
+    case 'INSERT':
+    case 'REPLACE':
+    case 'UPSERT': {
+      skip('LOW_PRIORITY', 'DELAYED', 'HIGH_PRIORITY', 'IGNORE');
+      if (isWord(tokens[i], 'OR')) i += 2; // SQLite: INSERT OR REPLACE
+      skip('INTO');
+      const table = tableRef(tokens, i);
+      return table && [table.name];
+    }
+
+    case 'UPDATE': {
+      skip('LOW_PRIORITY', 'IGNORE', 'ONLY');
+      const table = tableRef(tokens, i);
+      if (!table) return null;
+
+      // MySQL multi-table updates: UPDATE a JOIN b ... SET / UPDATE a, b SET
+      const names = [table.name];
+      let depth = 0;
+      for (let j = table.end; j < tokens.length; j++) {
+        const token = tokens[j];
+        if (token.text === '(') depth++;
+        if (token.text === ')') depth--;
+        if (depth !== 0) continue;
+        if (isWord(token, 'SET')) break;
+        if (token.text === ',' || isWord(token, 'JOIN')) {
+          const joined = tableRef(tokens, isWord(tokens[j + 1], 'ONLY') ? j + 2 : j + 1);
+          if (!joined) return null;
+          names.push(joined.name);
+        }
+      }
+      return names;
+    }
+
+    case 'DELETE': {
+      skip('LOW_PRIORITY', 'QUICK', 'IGNORE');
+      if (!isWord(tokens[i], 'FROM')) return null; // MySQL DELETE t1 FROM ...: targets may be aliases
+      i++;
+      skip('ONLY');
+      const table = tableRef(tokens, i);
+      return table && [table.name];
+    }
+
+    case 'MERGE': {
+      skip('INTO');
+      const table = tableRef(tokens, i);
+      return table && [table.name];
+    }
+
+    case 'TRUNCATE': {
+      skip('TABLE');
+      return tableList(tokens, i);
+    }
+
+    case 'ALTER': {
+      if (!isWord(tokens[i], 'TABLE')) return [];
+      i++;
+      skip('IF', 'EXISTS', 'ONLY');
+      const table = tableRef(tokens, i);
+      return table && [table.name];
+    }
+
+    case 'DROP': {
+      if (!isWord(tokens[i], 'TABLE')) return [];
+      i++;
+      skip('IF', 'EXISTS');
+      return tableList(tokens, i);
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Comma-separated table references (TRUNCATE, DROP TABLE)
+ */
+function tableList(tokens: Token[], start: number): string[] | null {
+  const names: string[] = [];
+  let i = start;
+  for (;;) {
+    if (isWord(tokens[i], 'ONLY')) i++;
+    const table = tableRef(tokens, i);
+    if (!table) return null;
+    names.push(table.name);
+    i = table.end;
+    if (tokens[i]?.text === '*') i++; // Postgres: TRUNCATE t * (descendants)
+    if (tokens[i]?.text !== ',') return names;
+    i++;
+  }
+}
+
+/**
+ * A possibly schema-qualified table name starting at tokens[start]
+ * Returns the last part and the index after the reference.
+ */
+function tableRef(tokens: Token[], start: number): { name: string; end: number } | null {
+  let i = start;
+  let name: string | undefined;
+  for (;;) {
+    const token = tokens[i];
+    if (!token || (token.kind !== 'word' && token.kind !== 'ident')) return null;
+    name = token.text;
+    i++;
+    if (tokens[i]?.text !== '.') return { name, end: i };
+    i++;
+  }
+}
+
+function isWord(token: Token | undefined, ...words: string[]): boolean {
+  return token?.kind === 'word' && words.includes(token.text.toUpperCase());
+}
+
+function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [];
+  let current: Token[] = [];
+  for (const token of tokens) {
+    if (token.text === ';' && token.kind === 'punct') {
+      if (current.length > 0) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) statements.push(current);
+  return statements;
+}
+
+/**
+ * Split SQL into words, quoted identifiers and punctuation
+ * Comments are dropped; string literals (including Postgres dollar-quoted
+ * bodies) become opaque 'other' tokens.
+ */
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (sql.startsWith('--', i)) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (sql.startsWith('/*', i)) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (ch === "'") {
+      i = quotedEnd(sql, i, "'");
+      tokens.push({ kind: 'other', text: "''" });
+    } else if (ch === '"' || ch === '`') {
+      const end = quotedEnd(sql, i, ch);
+      tokens.push({
+        kind: 'ident',
+        text: sql
+          .slice(i + 1, end - 1)
+          .split(ch + ch)
+          .join(ch),
+      });
+      i = end;
+    } else if (ch === '[') {
+      const end = sql.indexOf(']', i);
+      const close = end === -1 ? sql.length : end;
+      tokens.push({ kind: 'ident', text: sql.slice(i + 1, close) });
+      i = close + 1;
+    } else if (ch === '$') {
+      const tag = /^\$[A-Za-z_]*\$/.exec(sql.slice(i));
+      if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        i = end === -1 ? sql.length : end + tag[0].length;
+      } else {
+        i++;
+        while (i < sql.length && /[0-9]/.test(sql[i])) i++; // $1 placeholder
+      }
+      tokens.push({ kind: 'other', text: '$' });
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(i))!;
+      tokens.push({ kind: 'word', text: match[0] });
+      i += match[0].length;
+    } else if (/[0-9]/.test(ch)) {
+      const match = /^[0-9][0-9.eE]*/.exec(sql.slice(i))!;
+      tokens.push({ kind: 'other', text: match[0] });
+      i += match[0].length;
+    } else {
+      tokens.push({ kind: 'punct', text: ch });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Index after a quoted section starting at sql[start]; doubled quotes escape
+ */
+function quotedEnd(sql: string, start: number, quote: string): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === quote) {
+      if (sql[i + 1] !== quote) return i + 1;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
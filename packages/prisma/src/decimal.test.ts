@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Decimal } from '@prisma/client/runtime/library.js';
+import { createJsonSerializer, jsonSerializer, setDefaultDecimal } from '@includekit/core';
+import { usePrismaDecimal } from './decimal';
+
+describe('usePrismaDecimal', () => {
+  afterEach(() => {
+    setDefaultDecimal(undefined);
+  });
+
+  it('makes cache hits return Prisma.Decimal', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    await usePrismaDecimal(logger);
+
+    const value = { price: new Decimal('19.99') };
+    const result = jsonSerializer.deserialize(jsonSerializer.serialize(value)) as typeof value;
+
+    expect(result.price).toBeInstanceOf(Decimal);
+    expect(result.price.equals(value.price)).toBe(true);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('leaves an explicit decimal option in charge', async () => {
+    await usePrismaDecimal({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+    const serializer = createJsonSerializer({ decimal: (value) => value });
+    expect(serializer.deserialize(serializer.serialize(new Decimal('1.5')))).toBe('1.5');
+  });
+});
@@ -0,0 +1,21 @@
+import { setDefaultDecimal, type Logger } from '@includekit/core';
+
+/**
+ * Make serialized caches rebuild Decimal fields as Prisma.Decimal, so a cache
+ * hit returns the same type as a database read (the core default is a string)
+ *
+ * Generated clients take Prisma.Decimal from this runtime module, so this
+ * works for custom client output paths too. Loaded lazily: bundles without
+ * the library runtime (edge, wasm) keep strings.
+ */
+export async function usePrismaDecimal(logger: Logger): Promise<void> {
+  try {
+    const { Decimal } = await import('@prisma/client/runtime/library.js');
+    setDefaultDecimal((value) => new Decimal(value));
+  } catch (error) {
+    logger.warn(
+      'IncludeKit could not load Prisma.Decimal; cached Decimals are returned as strings:',
+      error
+    );
+  }
+}
@@ -6,7 +6,28 @@
 
 // Main integration function
 export { withIncludeKit } from './integration';
-export type { IncludeKitPrismaOptions, IncludeKitDiagnostics } from './integration';
+export type {
+  IncludeKitPrismaOptions,
+  IncludeKitDiagnostics,
+  IncludeKitClient,
+  IncludeKitTransactionClient,
+  CacheArgs,
+  InvalidateOptions,
+} from './integration';
+export type {
+  InvalidationMessage,
+  CacheStats,
+  StatsCounters,
+  LatencyHistogram,
+  CacheHealth,
+  QueryCacheArg,
+  ReadCacheOptions,
+  CachePolicies,
+  CachePolicy,
+  CacheRule,
+  EngineFallbackOptions,
+} from '@includekit/orchestrator';
+export type { RawSqlOptions } from '@includekit/prisma-mapper';
 
 // Re-export core types for convenience
 export type {
@@ -17,8 +38,47 @@ export type {
   Statement,
   Mutation,
   InsightsEvent,
+  EngineHealth,
+  EngineMetrics,
+  AuditLogEntry,
+} from '@includekit/core';
+
+// Re-export error classes
+export {
+  IncludeKitError,
+  EngineError,
+  SchemaError,
+  WasmLoadError,
+  TimeoutError,
 } from '@includekit/core';
 
+// Re-export engine for tests and local development without core.wasm
+export { ReferenceEngine } from '@includekit/core';
+
 // Re-export cache implementations
-export { MemoryLRU, RedisCache } from '@includekit/core';
-export type { MemoryLRUConfig, RedisCacheConfig } from '@includekit/core';
+export {
+  MemoryLRU,
+  RedisCache,
+  FileCache,
+  TieredCache,
+  CircuitBreakerCache,
+  LocalPubSub,
+  RedisPubSub,
+  createJsonSerializer,
+  jsonSerializer,
+  setDefaultDecimal,
+} from '@includekit/core';
+export type {
+  MemoryLRUConfig,
+  RedisCacheConfig,
+  FileCacheConfig,
+  TieredCacheConfig,
+  CircuitBreakerConfig,
+  CircuitBreakerStatus,
+  CircuitState,
+  PubSub,
+  LocalPubSubConfig,
+  RedisPubSubConfig,
+  Serializer,
+  JsonSerializerOptions,
+} from '@includekit/core';
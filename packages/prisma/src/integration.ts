@@ -1,24 +1,148 @@
-import { withORM, loadSchema, type SchemaConfig } from '@includekit/orchestrator';
-import type { Engine, Cache, InsightsEvent } from '@includekit/core';
-import { PrismaMapper } from '@includekit/prisma-mapper';
+import {
+  withORM,
+  loadSchema,
+  type SchemaConfig,
+  type InvalidationMessage,
+  type CacheStats,
+  type CacheHealth,
+  type QueryCacheArg,
+  type CachePolicies,
+  type EngineFallbackOptions,
+} from '@includekit/orchestrator';
+import type {
+  Engine,
+  Cache,
+  InsightsEvent,
+  Logger,
+  Mutation,
+  PubSub,
+  EngineHealth,
+  EngineMetrics,
+  AuditLogEntry,
+} from '@includekit/core';
+import { consoleLogger } from '@includekit/core';
+import { PrismaMapper, type RawSqlOptions } from '@includekit/prisma-mapper';
+import { usePrismaDecimal } from './decimal';
+import type { Prisma } from '@prisma/client/extension';
+import type { ITXClientDenyList, Types } from '@prisma/client/runtime/library.js';
 
 export interface IncludeKitPrismaOptions {
   schema: SchemaConfig;
   cache: Cache<any>;
   engine?: Engine;
   defaultTtlMs?: number;
+  staleWhileRevalidateMs?: number;
   insights?: {
     emit?: (event: InsightsEvent) => void;
   };
+  invalidationBus?: PubSub<InvalidationMessage>; // Required when replicas share a cache
+  logger?: Logger;
+  buildId?: string; // e.g. process.env.GIT_SHA; entries from other builds are ignored
+  policies?: CachePolicies; // Per-model rules: never cache, TTLs, max result size
+  engineFallback?: EngineFallbackOptions; // Default: { reads: 'bypass', writes: 'flush-model' }
+  rawSql?: RawSqlOptions; // Default: { unparseable: 'flush' }
+}
+
+export interface InvalidateOptions {
+  tx?: unknown; // Interactive transaction client; evictions wait for its commit
 }
 
 export interface IncludeKitDiagnostics {
   getVersion(): Promise<{ core: string; contract: string; abi: string }>;
-  getCacheStats(): { size: number; hitRate: number };
+  getCacheStats(): CacheStats;
+  /**
+   * Return the stats collected so far and start a new interval
+   */
+  resetCacheStats(): CacheStats;
+  /**
+   * Whether the cache backend is in use, and circuit breaker state if any
+   */
+  getCacheHealth(): CacheHealth;
+  /**
+   * Engine diagnostics; undefined when the engine doesn't implement them
+   */
+  getHealth(): Promise<EngineHealth | undefined>;
+  getMetrics(): Promise<EngineMetrics | undefined>;
+  getAuditLog(): Promise<AuditLogEntry[] | undefined>;
   reset(): Promise<void>;
   destroy(): Promise<void>;
+  /**
+   * Run writes with evictions collected and applied once at the end
+   * Use for imports and backfills; reads inside may see stale cache entries
+   */
+  bulk<R>(fn: () => Promise<R>): Promise<R>;
+  /**
+   * Evict cached queries affected by a change made outside Prisma
+   * (raw SQL, other services, admin scripts)
+   */
+  invalidate(mutation: Mutation, options?: InvalidateOptions): Promise<void>;
+  /**
+   * Evict every cached query reading the models
+   */
+  invalidateModel(models: string | string[], options?: InvalidateOptions): Promise<void>;
+  /**
+   * Evict cached queries containing the records, or whose filters they may
+   * now match (composite IDs are passed as arrays)
+   */
+  invalidateRecords(
+    model: string,
+    ids: Array<string | string[]>,
+    options?: InvalidateOptions
+  ): Promise<void>;
 }
 
+/**
+ * IncludeKit-only properties accepted in read args
+ */
+export interface CacheArgs {
+  cache?: QueryCacheArg;
+}
+
+type CachedDelegate<D> = Omit<D, 'findMany' | 'findFirst' | 'findUnique'> & {
+  findMany<A>(
+    args?: Prisma.Exact<A, Prisma.Args<D, 'findMany'> & CacheArgs>
+  ): Prisma.PrismaPromise<Prisma.Result<D, A, 'findMany'>>;
+  findFirst<A>(
+    args?: Prisma.Exact<A, Prisma.Args<D, 'findFirst'> & CacheArgs>
+  ): Prisma.PrismaPromise<Prisma.Result<D, A, 'findFirst'>>;
+  findUnique<A>(
+    args: Prisma.Exact<A, Prisma.Args<D, 'findUnique'> & CacheArgs>
+  ): Prisma.PrismaPromise<Prisma.Result<D, A, 'findUnique'>>;
+};
+
+type CachedClient<T> = {
+  [K in keyof T]: T[K] extends { findMany: (...args: any[]) => any } ? CachedDelegate<T[K]> : T[K];
+};
+
+// Options of the client's interactive $transaction (its last overload)
+type TransactionOptions<T> = T extends {
+  $transaction(fn: (tx: any) => Promise<any>, options?: infer O): Promise<any>;
+}
+  ? O
+  : never;
+
+/**
+ * Client passed to interactive transaction callbacks
+ * Model delegates accept `cache` like those of IncludeKitClient.
+ */
+export type IncludeKitTransactionClient<T> = Omit<CachedClient<T>, ITXClientDenyList>;
+
+/**
+ * Prisma client returned by withIncludeKit
+ * Model delegates accept `cache` in findMany/findFirst/findUnique args.
+ */
+export type IncludeKitClient<T> = Omit<CachedClient<T>, '$transaction'> & {
+  $transaction<P extends Prisma.PrismaPromise<any>[]>(
+    arg: [...P],
+    options?: TransactionOptions<T>
+  ): Promise<Types.Utils.UnwrapTuple<P>>;
+  $transaction<R>(
+    fn: (tx: IncludeKitTransactionClient<T>) => Promise<R>,
+    options?: TransactionOptions<T>
+  ): Promise<R>;
+  $includeKit: IncludeKitDiagnostics;
+};
+
 /**
  * Extend Prisma client with IncludeKit caching
  * 
@@ -29,12 +153,15 @@ export interface IncludeKitDiagnostics {
 export async function withIncludeKit<T extends { $extends: any; $transaction: any }>(
   prisma: T,
   options: IncludeKitPrismaOptions
-): Promise<T & { $includeKit: IncludeKitDiagnostics }> {
+): Promise<IncludeKitClient<T>> {
   // Load schema
   const schema = await loadSchema(options.schema);
 
+  // Cache hits return Prisma.Decimal, like database reads
+  await usePrismaDecimal(options.logger ?? consoleLogger);
+
   // Create Prisma mapper
-  const mapper = new PrismaMapper(schema);
+  const mapper = new PrismaMapper(schema, { rawSql: options.rawSql, logger: options.logger });
 
   // Get orchestrator + mapper extended client
   const extended = await withORM(prisma, {
@@ -48,7 +175,15 @@ export async function withIncludeKit<T extends { $extends: any; $transaction: an
   const commitTx = (extended as any).__includekit_commitTransaction;
   const rollbackTx = (extended as any).__includekit_rollbackTransaction;
   const getCacheStats = (extended as any).__includekit_getCacheStats;
+  const resetCacheStats = (extended as any).__includekit_resetCacheStats;
+  const getCacheHealth = (extended as any).__includekit_getCacheHealth;
   const getEngine = (extended as any).__includekit_getEngine;
+  const bulk = (extended as any).__includekit_bulk;
+  const invalidate = (extended as any).__includekit_invalidate;
+  const invalidateModel = (extended as any).__includekit_invalidateModel;
+  const invalidateRecords = (extended as any).__includekit_invalidateRecords;
+  const destroyORM = (extended as any).__includekit_destroy;
+  const resetORM = (extended as any).__includekit_reset;
 
   // Create diagnostics API
   const diagnostics: IncludeKitDiagnostics = {
@@ -57,20 +192,32 @@ export async function withIncludeKit<T extends { $extends: any; $transaction: an
       return engine.version();
     },
     getCacheStats: () => getCacheStats(),
-    reset: async () => {
-      const engine = getEngine();
-      await engine.reset();
-      // Clear cache as well
-      if ('clear' in options.cache && typeof options.cache.clear === 'function') {
-        await options.cache.clear();
-      }
+    resetCacheStats: () => resetCacheStats(),
+    getCacheHealth: () => getCacheHealth(),
+    getHealth: async () => {
+      const engine: Engine = getEngine();
+      return engine.health?.();
+    },
+    getMetrics: async () => {
+      const engine: Engine = getEngine();
+      return engine.metrics?.();
+    },
+    getAuditLog: async () => {
+      const engine: Engine = getEngine();
+      return engine.auditLog?.();
     },
+    reset: () => resetORM(),
     destroy: async () => {
       // Cleanup resources
+      await destroyORM();
       if ('destroy' in options.cache && typeof (options.cache as any).destroy === 'function') {
         (options.cache as any).destroy();
       }
     },
+    bulk: (fn) => bulk(fn),
+    invalidate: (mutation, opts) => invalidate(mutation, opts?.tx),
+    invalidateModel: (models, opts) => invalidateModel(models, opts?.tx),
+    invalidateRecords: (model, ids, opts) => invalidateRecords(model, ids, opts?.tx),
   };
 
   // Wrap $transaction to handle commit/rollback
@@ -110,5 +257,5 @@ export async function withIncludeKit<T extends { $extends: any; $transaction: an
 
       return (target as any)[prop];
     },
-  }) as T & { $includeKit: IncludeKitDiagnostics };
+  }) as IncludeKitClient<T>;
 }